@@ -4,21 +4,36 @@ import { customPieces } from './components/ChessBoard/customPieces';
 import { GameControls } from './components/GameControls';
 import { AISettings } from './components/AISettings';
 import { GameResultDialog } from './components/GameResultDialog';
+import { TournamentPage } from './components/TournamentPage';
+import { LeaderboardPage } from './components/LeaderboardPage';
+import { PlayerClock } from './components/PlayerClock';
 import { useChessGame, type AISettings as AISettingsType } from './hooks/useChessGame';
 import { apiService, type ProviderInfo } from './services/api';
+import { encodingTag } from './utils/encodings';
+import { parseStartPosition } from './utils/startPosition';
+import { addUsage, describeUsage, formatCost } from './utils/usage';
 import './App.css';
 
 const defaultAISettings: AISettingsType = {
+  whiteProvider: 'openrouter',
   whiteModel: '',
+  blackProvider: 'openrouter',
   blackModel: '',
+  startPosition: '',
 };
 
 function App() {
   const [providers, setProviders] = useState<ProviderInfo[]>([]);
   const [aiSettings, setAISettings] = useState<AISettingsType>(defaultAISettings);
   const [showSettings, setShowSettings] = useState(true);
+  // Tournament shared via ?tournament=<id>, shown instead of the board
+  const [tournamentId, setTournamentId] = useState(() => new URLSearchParams(window.location.search).get('tournament'));
+  // Full-page views shown instead of the board
+  const [view, setView] = useState<'board' | 'tournament' | 'leaderboard'>(tournamentId !== null ? 'tournament' : 'board');
   const [orientation, setOrientation] = useState<'white' | 'black'>('white');
   const [showResultDialog, setShowResultDialog] = useState(true);
+  // Play on the server so the match survives closing the tab
+  const [runOnServer, setRunOnServer] = useState(true);
 
   const {
     game,
@@ -29,7 +44,18 @@ function App() {
     lastMove,
     invalidMove,
     lastReasoning,
+    lastCorrections,
+    totalCorrections,
+    gameUsage,
+    lastUsage,
     startAIVsAIGame,
+    startServerMatch,
+    attachToMatch,
+    abortMatch,
+    downloadPgn,
+    matchId,
+    matchPlayers,
+    matchClocks,
     resetGame,
     isGameOver,
     getGameResult,
@@ -40,12 +66,17 @@ function App() {
       try {
         const data = await apiService.getProviders();
         setProviders(data);
-        const openrouter = data.find(p => p.id === 'openrouter');
-        if (openrouter && openrouter.models.length > 0) {
-          setAISettings({
-            whiteModel: openrouter.models[0]?.id || '',
-            blackModel: openrouter.models[0]?.id || '',
-          });
+        // Prefer OpenRouter when configured, otherwise the first provider with models
+        const initial = data.find(p => p.id === 'openrouter' && p.models.length > 0)
+          || data.find(p => p.models.length > 0);
+        if (initial) {
+          setAISettings(prev => ({
+            ...prev,
+            whiteProvider: initial.id,
+            whiteModel: initial.models[0]?.id || '',
+            blackProvider: initial.id,
+            blackModel: initial.models[0]?.id || '',
+          }));
         }
       } catch (err) {
         console.error('Failed to load providers:', err);
@@ -54,16 +85,64 @@ function App() {
     loadProviders();
   }, []);
 
+  // Attach to a running server match shared via ?match=<id>
+  useEffect(() => {
+    const sharedMatchId = new URLSearchParams(window.location.search).get('match');
+    if (!sharedMatchId) return;
+    const attach = async () => {
+      setShowSettings(false);
+      await attachToMatch(sharedMatchId);
+    };
+    attach();
+  }, [attachToMatch]);
+
   const handleNewGame = () => {
     resetGame();
+    window.history.replaceState(null, '', window.location.pathname);
     setShowSettings(true);
     setShowResultDialog(true);
   };
 
   const handleStartAIGame = async () => {
+    let startFen: string | undefined;
+    if (aiSettings.startPosition.trim()) {
+      try {
+        startFen = parseStartPosition(aiSettings.startPosition, aiSettings.startPly).fen;
+      } catch {
+        // The settings panel already shows why the position is invalid
+        return;
+      }
+    }
+
+    setShowSettings(false);
+    setShowResultDialog(true);
+    if (runOnServer) {
+      const id = await startServerMatch(aiSettings, startFen);
+      if (id) {
+        window.history.replaceState(null, '', `?match=${encodeURIComponent(id)}`);
+      }
+    } else {
+      await startAIVsAIGame(aiSettings, startFen);
+    }
+  };
+
+  const handleOpenTournament = () => {
+    window.history.replaceState(null, '', tournamentId ? `?tournament=${encodeURIComponent(tournamentId)}` : window.location.pathname);
+    setView('tournament');
+  };
+
+  const handleCloseTournament = () => {
+    window.history.replaceState(null, '', window.location.pathname);
+    setView('board');
+  };
+
+  // Open a tournament game on the board
+  const handleWatchTournamentGame = async (id: string) => {
+    setView('board');
     setShowSettings(false);
     setShowResultDialog(true);
-    await startAIVsAIGame(aiSettings);
+    window.history.replaceState(null, '', `?match=${encodeURIComponent(id)}`);
+    await attachToMatch(id);
   };
 
   const handleFlip = () => {
@@ -75,13 +154,18 @@ function App() {
   };
 
   const gameResult = isGameOver() ? getGameResult() : null;
+  const totalUsage = addUsage(gameUsage.w, gameUsage.b);
 
-  const getModelLabel = (modelId: string) => {
-    const openrouter = providers.find(p => p.id === 'openrouter');
-    const m = openrouter?.models.find(m => m.id === modelId);
+  const getModelLabel = (providerId: string, modelId: string) => {
+    const provider = providers.find(p => p.id === providerId);
+    const m = provider?.models.find(m => m.id === modelId);
     return m?.name || modelId;
   };
 
+  // Attached matches name their own players, which may differ from the local settings
+  const whitePlayer = matchPlayers?.white ?? { provider: aiSettings.whiteProvider, model: aiSettings.whiteModel, prompt: aiSettings.whitePrompt, encoding: aiSettings.whiteEncoding, conversation: aiSettings.whiteConversation, tools: aiSettings.whiteTools };
+  const blackPlayer = matchPlayers?.black ?? { provider: aiSettings.blackProvider, model: aiSettings.blackModel, prompt: aiSettings.blackPrompt, encoding: aiSettings.blackEncoding, conversation: aiSettings.blackConversation, tools: aiSettings.blackTools };
+
   const getCapturedPieces = (color: 'w' | 'b') => {
     const history = game.history({ verbose: true });
     const captured: string[] = [];
@@ -147,6 +231,22 @@ function App() {
     );
   };
 
+  if (view === 'leaderboard') {
+    return <LeaderboardPage onBack={() => setView('board')} />;
+  }
+
+  if (view === 'tournament') {
+    return (
+      <TournamentPage
+        providers={providers}
+        initialTournamentId={tournamentId}
+        onTournamentStarted={setTournamentId}
+        onBack={handleCloseTournament}
+        onWatchGame={handleWatchTournamentGame}
+      />
+    );
+  }
+
   return (
     <div className="app">
       {/* ---- TOP: Black player bar ---- */}
@@ -155,9 +255,24 @@ function App() {
           {!showSettings && (
             <>
               <span className="pb-icon black-icon">♔</span>
-              <span className="pb-name">{getModelLabel(aiSettings.blackModel)}</span>
+              <span className="pb-name">{getModelLabel(blackPlayer.provider, blackPlayer.model || '')}</span>
+              {blackPlayer.prompt && <span className="model-badge" title="Prompt template">{blackPlayer.prompt}</span>}
+              {blackPlayer.encoding && <span className="model-badge" title="Board encoding">{encodingTag(blackPlayer.encoding)}</span>}
+              {blackPlayer.conversation && <span className="model-badge" title="Conversation mode: keeps its earlier moves and reasoning">conversation</span>}
+              {blackPlayer.tools && <span className="model-badge" title="Tool mode: queries the position before moving">tools</span>}
               {renderCapturedPieces(getCapturedPieces('b'), 'b')}
+              {totalCorrections.b > 0 && (
+                <span className="pb-corrections" title="Illegal moves corrected by the server">
+                  {totalCorrections.b} fixed
+                </span>
+              )}
               <span className="pb-side">Black</span>
+              {matchClocks && (
+                <PlayerClock
+                  remainingMs={matchClocks.clocks.b}
+                  runningSince={matchClocks.running === 'b' ? matchClocks.since : null}
+                />
+              )}
               {gameActive && game.turn() === 'b' && (
                 <span className={`pb-dot ${isThinking ? 'dot-think' : 'dot-active'}`} />
               )}
@@ -214,6 +329,14 @@ function App() {
               onSettingsChange={setAISettings}
               providers={providers}
             />
+            <label className="server-toggle">
+              <input
+                type="checkbox"
+                checked={runOnServer}
+                onChange={(e) => setRunOnServer(e.target.checked)}
+              />
+              Run on server (keeps playing if this tab closes)
+            </label>
             <button
               onClick={handleStartAIGame}
               disabled={providers.length === 0 || isLoading}
@@ -221,6 +344,12 @@ function App() {
             >
               {isLoading ? 'Starting...' : 'Start Game'}
             </button>
+            <button onClick={handleOpenTournament} className="btn-tournament">
+              {tournamentId ? 'Back to Tournament' : 'Tournaments'}
+            </button>
+            <button onClick={() => setView('leaderboard')} className="btn-tournament">
+              Leaderboard
+            </button>
             {providers.length === 0 && (
               <div className="warn-box">
                 <strong>No providers found</strong>
@@ -258,6 +387,36 @@ function App() {
               <div className="reasoning-box">
                 <div className="reasoning-label">Last Move Reasoning:</div>
                 <div className="reasoning-text">{lastReasoning}</div>
+                {lastCorrections > 0 && (
+                  <div className="reasoning-corrections">
+                    Needed {lastCorrections} correction{lastCorrections === 1 ? '' : 's'} after illegal moves
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Token usage and estimated cost */}
+            {totalUsage && (
+              <div className="usage-box">
+                <div className="reasoning-label">Usage:</div>
+                {(['w', 'b'] as const).map(color => {
+                  const usage = gameUsage[color];
+                  return usage && (
+                    <div key={color} className="usage-row">
+                      <span className="usage-side">{color === 'w' ? 'White' : 'Black'}</span>
+                      <span className="usage-tokens">{describeUsage(usage)}</span>
+                      <span className="usage-cost">{formatCost(usage.costUsd)}</span>
+                    </div>
+                  );
+                })}
+                <div className="usage-row usage-total">
+                  <span className="usage-side">Game</span>
+                  <span className="usage-tokens">{describeUsage(totalUsage)}</span>
+                  <span className="usage-cost">{formatCost(totalUsage.costUsd)}</span>
+                </div>
+                {lastUsage && (
+                  <div className="usage-last">Last answer: {describeUsage(lastUsage)}, {formatCost(lastUsage.costUsd)}</div>
+                )}
               </div>
             )}
 
@@ -277,6 +436,8 @@ function App() {
               <GameControls
                 onNewGame={handleNewGame}
                 onFlip={handleFlip}
+                onAbort={matchId && gameActive ? abortMatch : undefined}
+                onDownloadPgn={matchId || game.history().length > 0 ? downloadPgn : undefined}
               />
             </div>
           </div>
@@ -298,9 +459,24 @@ function App() {
           {!showSettings && (
             <>
               <span className="pb-icon white-icon">♚</span>
-              <span className="pb-name">{getModelLabel(aiSettings.whiteModel)}</span>
+              <span className="pb-name">{getModelLabel(whitePlayer.provider, whitePlayer.model || '')}</span>
+              {whitePlayer.prompt && <span className="model-badge" title="Prompt template">{whitePlayer.prompt}</span>}
+              {whitePlayer.encoding && <span className="model-badge" title="Board encoding">{encodingTag(whitePlayer.encoding)}</span>}
+              {whitePlayer.conversation && <span className="model-badge" title="Conversation mode: keeps its earlier moves and reasoning">conversation</span>}
+              {whitePlayer.tools && <span className="model-badge" title="Tool mode: queries the position before moving">tools</span>}
               {renderCapturedPieces(getCapturedPieces('w'), 'w')}
+              {totalCorrections.w > 0 && (
+                <span className="pb-corrections" title="Illegal moves corrected by the server">
+                  {totalCorrections.w} fixed
+                </span>
+              )}
               <span className="pb-side">White</span>
+              {matchClocks && (
+                <PlayerClock
+                  remainingMs={matchClocks.clocks.w}
+                  runningSince={matchClocks.running === 'w' ? matchClocks.since : null}
+                />
+              )}
               {gameActive && game.turn() === 'w' && (
                 <span className={`pb-dot ${isThinking ? 'dot-think' : 'dot-active'}`} />
               )}
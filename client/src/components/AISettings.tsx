@@ -1,12 +1,41 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import type { ProviderInfo } from '../services/api';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { BoardEncoding, ConversationOptions, ToolOptions, ModelFilter, ModelInfo, PromptTemplateInfo, ProviderInfo, TimeControl } from '../services/api';
 import { apiService } from '../services/api';
+import { BOARD_FORMAT_LABELS, DEFAULT_ENCODING, MOVE_FORMAT_LABELS } from '../utils/encodings';
+import { modelBadges, modelOptionLabel } from '../utils/models';
+import { parseStartPosition, type StartPosition } from '../utils/startPosition';
 
 interface AISettingsState {
+  whiteProvider: string;
   whiteModel: string;
+  blackProvider: string;
   blackModel: string;
+  whitePrompt?: string;
+  blackPrompt?: string;
+  whiteEncoding?: BoardEncoding;
+  blackEncoding?: BoardEncoding;
+  whiteConversation?: ConversationOptions;
+  blackConversation?: ConversationOptions;
+  whiteTools?: ToolOptions;
+  blackTools?: ToolOptions;
+  startPosition: string;
+  startPly?: number;
+  timeControl?: TimeControl;
 }
 
+type TimeControlMode = 'none' | TimeControl['type'];
+
+const DEFAULT_TIME_CONTROLS: Record<TimeControl['type'], TimeControl> = {
+  clock: { type: 'clock', baseSeconds: 300, incrementSeconds: 2 },
+  'per-move': { type: 'per-move', secondsPerMove: 30 },
+};
+
+// Non-negative number from an input, falling back while the field is being edited
+const parseSeconds = (value: string, fallback: number) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
 interface AISettingsProps {
   settings: AISettingsState;
   onSettingsChange: (settings: AISettingsState) => void;
@@ -21,29 +50,108 @@ export const AISettings: React.FC<AISettingsProps> = ({
   const [local, setLocal] = useState(settings);
   const [whiteSearchQuery, setWhiteSearchQuery] = useState('');
   const [blackSearchQuery, setBlackSearchQuery] = useState('');
-  const [whiteSearchResults, setWhiteSearchResults] = useState<{ id: string; name: string }[]>([]);
-  const [blackSearchResults, setBlackSearchResults] = useState<{ id: string; name: string }[]>([]);
+  const [whiteSearchResults, setWhiteSearchResults] = useState<ModelInfo[]>([]);
+  const [blackSearchResults, setBlackSearchResults] = useState<ModelInfo[]>([]);
   const [whiteSearching, setWhiteSearching] = useState(false);
   const [blackSearching, setBlackSearching] = useState(false);
+  // Capability filters apply to both model lists
+  const [filter, setFilter] = useState<ModelFilter>({});
+  const filtering = Boolean(filter.structuredOutputs || filter.reasoning || filter.tools);
+  const [templates, setTemplates] = useState<PromptTemplateInfo[]>([]);
 
   useEffect(() => {
     setLocal(settings);
   }, [settings]);
 
-  const handleChange = (field: keyof AISettingsState, value: string) => {
+  useEffect(() => {
+    let cancelled = false;
+    apiService.getPromptTemplates()
+      .then(result => {
+        if (!cancelled) setTemplates(result);
+      })
+      .catch(err => console.error('Failed to load prompt templates:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Validated on every edit so problems show up before the game is started
+  const start = useMemo((): { position: StartPosition | null; error: string | null } => {
+    if (!local.startPosition.trim()) return { position: null, error: null };
+    try {
+      return { position: parseStartPosition(local.startPosition, local.startPly), error: null };
+    } catch (err) {
+      return { position: null, error: err instanceof Error ? err.message : 'Invalid start position' };
+    }
+  }, [local.startPosition, local.startPly]);
+
+  const handleStartPositionChange = (startPosition: string) => {
+    // A new paste starts from its final position again
+    const updated = { ...local, startPosition, startPly: undefined };
+    setLocal(updated);
+    onSettingsChange(updated);
+  };
+
+  const handleStartPlyChange = (value: string) => {
+    const plies = start.position?.plies ?? 0;
+    const ply = value === '' ? undefined : Math.min(Math.max(parseInt(value, 10) || 0, 0), plies);
+    const updated = { ...local, startPly: ply };
+    setLocal(updated);
+    onSettingsChange(updated);
+  };
+
+  const handleTimeControlChange = (timeControl: TimeControl | undefined) => {
+    const updated = { ...local, timeControl };
+    setLocal(updated);
+    onSettingsChange(updated);
+  };
+
+  const handleChange = (field: 'whiteModel' | 'blackModel' | 'whitePrompt' | 'blackPrompt', value: string) => {
     const updated = { ...local, [field]: value };
     setLocal(updated);
     onSettingsChange(updated);
   };
 
-  const getModels = (searchResults?: { id: string; name: string }[], selectedModelId?: string) => {
-    let models: { id: string; name: string }[] = [];
+  const handleEncodingChange = (field: 'whiteEncoding' | 'blackEncoding', changes: Partial<BoardEncoding>) => {
+    const updated = { ...local, [field]: { ...(local[field] || DEFAULT_ENCODING), ...changes } };
+    setLocal(updated);
+    onSettingsChange(updated);
+  };
+
+  const handleConversationChange = (field: 'whiteConversation' | 'blackConversation', conversation: ConversationOptions | undefined) => {
+    const updated = { ...local, [field]: conversation };
+    setLocal(updated);
+    onSettingsChange(updated);
+  };
+
+  const handleToolsChange = (field: 'whiteTools' | 'blackTools', tools: ToolOptions | undefined) => {
+    const updated = { ...local, [field]: tools };
+    setLocal(updated);
+    onSettingsChange(updated);
+  };
+
+  const handleProviderChange = (isWhite: boolean, providerId: string) => {
+    const firstModel = providers.find(p => p.id === providerId)?.models[0]?.id || '';
+    const updated = isWhite
+      ? { ...local, whiteProvider: providerId, whiteModel: firstModel }
+      : { ...local, blackProvider: providerId, blackModel: firstModel };
+    setLocal(updated);
+    onSettingsChange(updated);
+    if (isWhite) {
+      setWhiteSearchQuery('');
+    } else {
+      setBlackSearchQuery('');
+    }
+  };
+
+  const getModels = (providerId: string, searchResults?: ModelInfo[], selectedModelId?: string) => {
+    let models: ModelInfo[] = [];
     
-    if (searchResults && searchResults.length > 0) {
+    if (searchResults && (searchResults.length > 0 || filtering)) {
       models = searchResults;
     } else {
-      const openrouter = providers.find(p => p.id === 'openrouter');
-      models = openrouter?.models || [];
+      const provider = providers.find(p => p.id === providerId);
+      models = provider?.models || [];
     }
     
     // If a model is selected but not in the current list, add it
@@ -55,7 +163,128 @@ export const AISettings: React.FC<AISettingsProps> = ({
     return models;
   };
 
-  const searchModels = useCallback(async (query: string, isWhite: boolean) => {
+  // Same model, different prompt: the leaderboard rates each template separately
+  const renderPromptSelect = (field: 'whitePrompt' | 'blackPrompt') => {
+    if (templates.length === 0) return null;
+    const selected = templates.find(t => t.name === (local[field] || 'default'));
+    return (
+      <div className="setting-row">
+        <label>Prompt</label>
+        <select value={local[field] || 'default'} onChange={(e) => handleChange(field, e.target.value)}>
+          {templates.map(t => (
+            <option key={t.name} value={t.name}>{t.name}</option>
+          ))}
+        </select>
+        {selected?.description && <div className="tc-hint">{selected.description}</div>}
+      </div>
+    );
+  };
+
+  // Only templates using {{position}} and {{moves}} (such as default) follow the encoding
+  const renderEncoding = (field: 'whiteEncoding' | 'blackEncoding') => {
+    const encoding = local[field] || DEFAULT_ENCODING;
+    return (
+      <div className="setting-row">
+        <label>Board Encoding</label>
+        <select value={encoding.board} onChange={(e) => handleEncodingChange(field, { board: e.target.value as BoardEncoding['board'] })}>
+          {Object.entries(BOARD_FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select value={encoding.moves} onChange={(e) => handleEncodingChange(field, { moves: e.target.value as BoardEncoding['moves'] })}>
+          {Object.entries(MOVE_FORMAT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>Moves: {label}</option>
+          ))}
+        </select>
+        <div className="model-filter">
+          <label title="Attacked pieces and their defenders">
+            <input type="checkbox" checked={!!encoding.threats} onChange={(e) => handleEncodingChange(field, { threats: e.target.checked })} /> Threats
+          </label>
+          <label title="Material count and balance">
+            <input type="checkbox" checked={!!encoding.material} onChange={(e) => handleEncodingChange(field, { material: e.target.checked })} /> Material
+          </label>
+        </div>
+      </div>
+    );
+  };
+
+  // The player sees its own earlier moves and reasoning; the window bounds how much history is replayed
+  const renderConversation = (field: 'whiteConversation' | 'blackConversation') => {
+    const conversation = local[field];
+    return (
+      <div className="setting-row">
+        <div className="model-filter">
+          <label title="Keep a message history of this player's moves, reasoning and the opponent's replies">
+            <input type="checkbox" checked={!!conversation} onChange={(e) => handleConversationChange(field, e.target.checked ? {} : undefined)} /> Conversation mode
+          </label>
+        </div>
+        {conversation && (
+          <>
+            <label>History window (tokens)</label>
+            <input
+              type="number"
+              min={500}
+              step={500}
+              placeholder="4000"
+              value={conversation.windowTokens ?? ''}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                handleConversationChange(field, Number.isFinite(value) ? { windowTokens: value } : {});
+              }}
+              className="search-input"
+            />
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // Only providers with function calling offer tool mode
+  const renderTools = (field: 'whiteTools' | 'blackTools', providerId: string) => {
+    if (!providers.find(p => p.id === providerId)?.tools) return null;
+    const tools = local[field];
+    return (
+      <div className="setting-row">
+        <div className="model-filter">
+          <label title="Let the model query legal moves, attacked squares and hypothetical positions before submitting its move">
+            <input type="checkbox" checked={!!tools} onChange={(e) => handleToolsChange(field, e.target.checked ? {} : undefined)} /> Tool mode
+          </label>
+        </div>
+        {tools && (
+          <>
+            <label>Max tool calls per move</label>
+            <input
+              type="number"
+              min={0}
+              max={30}
+              placeholder="8"
+              value={tools.maxToolCalls ?? ''}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                handleToolsChange(field, Number.isFinite(value) ? { maxToolCalls: value } : {});
+              }}
+              className="search-input"
+            />
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const findModel = (providerId: string, modelId: string, searchResults: ModelInfo[]) =>
+    searchResults.find(m => m.id === modelId) || providers.find(p => p.id === providerId)?.models.find(m => m.id === modelId);
+
+  const renderBadges = (model: ModelInfo | undefined) => {
+    const badges = model ? modelBadges(model) : [];
+    if (badges.length === 0) return null;
+    return (
+      <div className="model-badges">
+        {badges.map(b => <span key={b.label} className="model-badge" title={b.title}>{b.label}</span>)}
+      </div>
+    );
+  };
+
+  const searchModels = useCallback(async (provider: string, query: string, isWhite: boolean, modelFilter: ModelFilter) => {
     
     if (isWhite) {
       setWhiteSearching(true);
@@ -64,7 +293,7 @@ export const AISettings: React.FC<AISettingsProps> = ({
     }
 
     try {
-      const results = await apiService.searchModels(query);
+      const results = await apiService.searchModels(query, provider, modelFilter);
       if (isWhite) {
         setWhiteSearchResults(results);
       } else {
@@ -83,34 +312,61 @@ export const AISettings: React.FC<AISettingsProps> = ({
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      if (whiteSearchQuery) {
-        searchModels(whiteSearchQuery, true);
+      if (whiteSearchQuery || filtering) {
+        searchModels(local.whiteProvider, whiteSearchQuery, true, filter);
       } else {
         setWhiteSearchResults([]);
       }
     }, 300);
     return () => clearTimeout(timer);
-  }, [whiteSearchQuery, searchModels]);
+  }, [whiteSearchQuery, local.whiteProvider, searchModels, filter, filtering]);
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      if (blackSearchQuery) {
-        searchModels(blackSearchQuery, false);
+      if (blackSearchQuery || filtering) {
+        searchModels(local.blackProvider, blackSearchQuery, false, filter);
       } else {
         setBlackSearchResults([]);
       }
     }, 300);
     return () => clearTimeout(timer);
-  }, [blackSearchQuery, searchModels]);
+  }, [blackSearchQuery, local.blackProvider, searchModels, filter, filtering]);
 
+  const clock = local.timeControl?.type === 'clock' ? local.timeControl : null;
 
   return (
     <div className="ai-settings">
       <h3>AI Configuration</h3>
+
+      <div className="model-filter">
+        <span>Only models with</span>
+        {([['structuredOutputs', 'JSON output'], ['reasoning', 'Reasoning'], ['tools', 'Tools']] as const).map(([key, label]) => (
+          <label key={key}>
+            <input
+              type="checkbox"
+              checked={Boolean(filter[key])}
+              onChange={(e) => setFilter({ ...filter, [key]: e.target.checked || undefined })}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
       
       <div className="settings-columns">
         <div className="ai-column">
           <h4>White</h4>
+
+          <div className="setting-row">
+            <label>Provider</label>
+            <select
+              value={local.whiteProvider}
+              onChange={(e) => handleProviderChange(true, e.target.value)}
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </div>
           
           <div className="setting-row">
             <label>Search Models</label>
@@ -130,15 +386,33 @@ export const AISettings: React.FC<AISettingsProps> = ({
               value={local.whiteModel}
               onChange={(e) => handleChange('whiteModel', e.target.value)}
             >
-              {getModels(whiteSearchResults, local.whiteModel).map(m => (
-                <option key={m.id} value={m.id}>{m.name}</option>
+              {getModels(local.whiteProvider, whiteSearchResults, local.whiteModel).map(m => (
+                <option key={m.id} value={m.id}>{modelOptionLabel(m)}</option>
               ))}
             </select>
+            {renderBadges(findModel(local.whiteProvider, local.whiteModel, whiteSearchResults))}
           </div>
+
+          {renderPromptSelect('whitePrompt')}
+          {renderEncoding('whiteEncoding')}
+          {renderConversation('whiteConversation')}
+          {renderTools('whiteTools', local.whiteProvider)}
         </div>
 
         <div className="ai-column">
           <h4>Black</h4>
+
+          <div className="setting-row">
+            <label>Provider</label>
+            <select
+              value={local.blackProvider}
+              onChange={(e) => handleProviderChange(false, e.target.value)}
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </div>
           
           <div className="setting-row">
             <label>Search Models</label>
@@ -158,12 +432,104 @@ export const AISettings: React.FC<AISettingsProps> = ({
               value={local.blackModel}
               onChange={(e) => handleChange('blackModel', e.target.value)}
             >
-              {getModels(blackSearchResults, local.blackModel).map(m => (
-                <option key={m.id} value={m.id}>{m.name}</option>
+              {getModels(local.blackProvider, blackSearchResults, local.blackModel).map(m => (
+                <option key={m.id} value={m.id}>{modelOptionLabel(m)}</option>
               ))}
             </select>
+            {renderBadges(findModel(local.blackProvider, local.blackModel, blackSearchResults))}
+          </div>
+
+          {renderPromptSelect('blackPrompt')}
+          {renderEncoding('blackEncoding')}
+          {renderConversation('blackConversation')}
+          {renderTools('blackTools', local.blackProvider)}
+        </div>
+      </div>
+
+      <div className="start-position">
+        <h4>Start Position</h4>
+        <div className="setting-row">
+          <label>FEN or PGN</label>
+          <textarea
+            rows={3}
+            placeholder="Paste a FEN or PGN, leave empty for the initial position"
+            value={local.startPosition}
+            onChange={(e) => handleStartPositionChange(e.target.value)}
+            className="search-input"
+          />
+        </div>
+        {start.position?.plies !== undefined && (
+          <div className="setting-row">
+            <label>Start after ply (0-{start.position.plies})</label>
+            <input
+              type="number"
+              min={0}
+              max={start.position.plies}
+              value={local.startPly ?? start.position.plies}
+              onChange={(e) => handleStartPlyChange(e.target.value)}
+              className="search-input"
+            />
           </div>
+        )}
+        {start.error && <div className="start-error">{start.error}</div>}
+      </div>
+
+      <div className="time-control">
+        <h4>Time Control</h4>
+        <div className="setting-row">
+          <label>Clock</label>
+          <select
+            value={local.timeControl?.type || 'none'}
+            onChange={(e) => {
+              const mode = e.target.value as TimeControlMode;
+              handleTimeControlChange(mode === 'none' ? undefined : DEFAULT_TIME_CONTROLS[mode]);
+            }}
+          >
+            <option value="none">No time limit</option>
+            <option value="clock">Base + increment</option>
+            <option value="per-move">Fixed time per move</option>
+          </select>
         </div>
+        {clock && (
+          <div className="setting-row">
+            <label>Minutes + increment (seconds)</label>
+            <input
+              type="number"
+              min={1}
+              value={clock.baseSeconds / 60}
+              onChange={(e) => handleTimeControlChange({
+                ...clock,
+                baseSeconds: Math.max(Math.round(parseSeconds(e.target.value, 5) * 60), 1),
+              })}
+              className="search-input"
+            />
+            <input
+              type="number"
+              min={0}
+              value={clock.incrementSeconds}
+              onChange={(e) => handleTimeControlChange({ ...clock, incrementSeconds: parseSeconds(e.target.value, 0) })}
+              className="search-input"
+            />
+          </div>
+        )}
+        {local.timeControl?.type === 'per-move' && (
+          <div className="setting-row">
+            <label>Seconds per move</label>
+            <input
+              type="number"
+              min={1}
+              value={local.timeControl.secondsPerMove}
+              onChange={(e) => handleTimeControlChange({
+                type: 'per-move',
+                secondsPerMove: Math.max(parseSeconds(e.target.value, 30), 1),
+              })}
+              className="search-input"
+            />
+          </div>
+        )}
+        {local.timeControl && (
+          <div className="tc-hint">Enforced by the server: a model that runs out of time loses. Only applies to games run on the server.</div>
+        )}
       </div>
 
       {providers.length === 0 && (
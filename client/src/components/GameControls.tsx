@@ -3,11 +3,15 @@ import React from 'react';
 interface GameControlsProps {
   onNewGame: () => void;
   onFlip: () => void;
+  onAbort?: () => void;
+  onDownloadPgn?: () => void;
 }
 
 export const GameControls: React.FC<GameControlsProps> = ({
   onNewGame,
   onFlip,
+  onAbort,
+  onDownloadPgn,
 }) => {
   return (
     <div className="game-controls">
@@ -32,6 +36,32 @@ export const GameControls: React.FC<GameControlsProps> = ({
         </svg>
         <span>Flip Board</span>
       </button>
+
+      {onAbort && (
+        <button
+          onClick={onAbort}
+          className="control-btn control-btn-secondary"
+          title="Stop the match running on the server"
+        >
+          <svg viewBox="0 0 24 24" width="18" height="18" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <rect x="5" y="5" width="14" height="14" rx="2"/>
+          </svg>
+          <span>Abort</span>
+        </button>
+      )}
+
+      {onDownloadPgn && (
+        <button
+          onClick={onDownloadPgn}
+          className="control-btn control-btn-secondary"
+          title="Download the game as PGN"
+        >
+          <svg viewBox="0 0 24 24" width="18" height="18" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5 5 5-5M12 15V3"/>
+          </svg>
+          <span>Download PGN</span>
+        </button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { apiService, type EncodingStats, type PlayerRating, type UsageSummary } from '../services/api';
+import { formatCost, formatTokens } from '../utils/usage';
+
+interface LeaderboardPageProps {
+  onBack: () => void;
+}
+
+type Sort = 'glicko' | 'elo' | 'games';
+
+export const LeaderboardPage: React.FC<LeaderboardPageProps> = ({ onBack }) => {
+  const [players, setPlayers] = useState<PlayerRating[] | null>(null);
+  const [sort, setSort] = useState<Sort>('glicko');
+  const [pgn, setPgn] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [encodings, setEncodings] = useState<EncodingStats[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    apiService.getLeaderboard(sort)
+      .then(result => {
+        if (!cancelled) setPlayers(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load leaderboard');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sort]);
+
+  // What each model and matchup has cost so far, from the stored games
+  useEffect(() => {
+    let cancelled = false;
+    apiService.getUsageSummary()
+      .then(result => {
+        if (!cancelled) setUsage(result);
+      })
+      .catch(err => console.error('Failed to load usage:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Illegal-move rates per model and board encoding, from the stored games
+  useEffect(() => {
+    let cancelled = false;
+    apiService.getEncodingStats()
+      .then(result => {
+        if (!cancelled) setEncodings(result);
+      })
+      .catch(err => console.error('Failed to load encoding stats:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Backfill ratings from exported or third-party PGN files
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const { imported, duplicates, skipped } = await apiService.importResults(pgn);
+      setMessage(`Imported ${imported} games (${duplicates} already rated, ${skipped} without a result)`);
+      setPgn('');
+      setPlayers(await apiService.getLeaderboard(sort));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import PGN');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="tournament-page">
+      <div className="tp-head">
+        <button className="tp-back" onClick={onBack}>← Board</button>
+        <h2>Leaderboard</h2>
+        <label className="tp-concurrency">
+          Sort by
+          <select value={sort} onChange={(e) => setSort(e.target.value as Sort)}>
+            <option value="glicko">Glicko-2</option>
+            <option value="elo">Elo</option>
+            <option value="games">Games</option>
+          </select>
+        </label>
+      </div>
+      {error && <div className="err-box">{error}</div>}
+
+      {players === null ? (
+        <div className="ml-empty">Loading ratings...</div>
+      ) : players.length === 0 ? (
+        <div className="ml-empty">No rated games yet. Finished games are rated automatically.</div>
+      ) : (
+        <table className="tp-table">
+          <thead>
+            <tr>
+              <th>#</th><th className="tp-name">Model</th><th>Provider</th><th>Glicko-2</th><th>RD</th><th>Elo</th><th>Games</th><th>W</th><th>D</th><th>L</th>
+            </tr>
+          </thead>
+          <tbody>
+            {players.map((p, rank) => (
+              <tr key={p.key}>
+                <td>{rank + 1}</td>
+                <td className="tp-name" title={p.key}>
+                  {p.model}
+                  {p.prompt && <span className="model-badge" title="Prompt template">{p.prompt}</span>}
+                  {p.tools && <span className="model-badge" title="Tool mode">tools</span>}
+                </td>
+                <td>{p.provider}</td>
+                <td className="tp-points">{Math.round(p.glicko.rating)}</td>
+                <td title="Rating deviation: lower means more certain">{Math.round(p.glicko.rd)}</td>
+                <td>{Math.round(p.elo)}</td>
+                <td>{p.games}</td>
+                <td>{p.wins}</td>
+                <td>{p.draws}</td>
+                <td>{p.losses}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {usage && usage.total.games > 0 && (
+        <>
+          <div className="ml-head">
+            Cost by model · {usage.total.games} games, {formatCost(usage.total.costUsd)} total
+          </div>
+          <table className="tp-table">
+            <thead>
+              <tr>
+                <th className="tp-name">Model</th><th>Provider</th><th>Games</th><th>Prompt</th><th>Completion</th><th>Reasoning</th><th>Cost</th><th>Per game</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.models.map(m => (
+                <tr key={m.key}>
+                  <td className="tp-name" title={m.key}>{m.model}</td>
+                  <td>{m.provider}</td>
+                  <td>{m.games}</td>
+                  <td>{formatTokens(m.promptTokens)}</td>
+                  <td>{formatTokens(m.completionTokens)}</td>
+                  <td>{formatTokens(m.reasoningTokens)}</td>
+                  <td className="tp-points">{formatCost(m.costUsd)}</td>
+                  <td>{formatCost((m.costUsd ?? 0) / m.games)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="ml-head">Cost by matchup</div>
+          <table className="tp-table">
+            <thead>
+              <tr>
+                <th className="tp-name">Matchup</th><th>Games</th><th>Tokens</th><th>Cost</th><th>Per game</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.matchups.map(m => (
+                <tr key={m.players.join(' vs ')}>
+                  <td className="tp-name">{m.players[0]} – {m.players[1]}</td>
+                  <td>{m.games}</td>
+                  <td>{formatTokens(m.promptTokens + m.completionTokens)}</td>
+                  <td className="tp-points">{formatCost(m.costUsd)}</td>
+                  <td>{formatCost((m.costUsd ?? 0) / m.games)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {encodings.length > 0 && (
+        <>
+          <div className="ml-head">Illegal moves by board encoding</div>
+          <table className="tp-table">
+            <thead>
+              <tr>
+                <th className="tp-name">Model</th><th>Encoding</th><th>Games</th><th>Moves</th><th>Corrections</th><th>Per move</th><th>Forfeits</th>
+              </tr>
+            </thead>
+            <tbody>
+              {encodings.map(e => (
+                <tr key={`${e.model} ${e.encoding}`}>
+                  <td className="tp-name" title={e.model}>{e.model}</td>
+                  <td>{e.encoding}</td>
+                  <td>{e.games}</td>
+                  <td>{e.moves}</td>
+                  <td>{e.corrections}</td>
+                  <td className="tp-points">{e.correctionsPerMove.toFixed(2)}</td>
+                  <td>{e.forfeits}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      <div className="ml-head">Backfill from PGN</div>
+      <div className="setting-row">
+        <textarea
+          rows={5}
+          placeholder="Paste one or more PGN games; White/Black tags name the models"
+          value={pgn}
+          onChange={(e) => setPgn(e.target.value)}
+          className="search-input lb-import"
+        />
+      </div>
+      {message && <div className="tp-progress">{message}</div>}
+      <button className="btn-tournament" onClick={handleImport} disabled={!pgn.trim() || importing}>
+        {importing ? 'Importing...' : 'Import Results'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from 'react';
+
+interface PlayerClockProps {
+  remainingMs: number;
+  // When this side's clock started running (epoch ms), null while stopped
+  runningSince: number | null;
+}
+
+// m:ss, with tenths once under ten seconds
+const formatClock = (ms: number) => {
+  if (ms < 10000) return (Math.floor(ms / 100) / 10).toFixed(1);
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const PlayerClock: React.FC<PlayerClockProps> = ({ remainingMs, runningSince }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (runningSince === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [runningSince]);
+
+  // Clamped so a stale tick right after the clock starts cannot add time
+  const left = runningSince === null
+    ? remainingMs
+    : Math.min(Math.max(remainingMs - (now - runningSince), 0), remainingMs);
+
+  return (
+    <span className={`pb-clock${runningSince !== null ? ' running' : ''}${left < 10000 ? ' low' : ''}`}>
+      {formatClock(left)}
+    </span>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useState, useEffect } from 'react';
+import { apiService, type MatchPlayer, type ProviderInfo, type TournamentFormat, type TournamentGame, type TournamentState } from '../services/api';
+
+interface TournamentPageProps {
+  providers: ProviderInfo[];
+  // Tournament to watch, e.g. from a shared ?tournament= link
+  initialTournamentId: string | null;
+  onTournamentStarted: (tournamentId: string) => void;
+  onBack: () => void;
+  onWatchGame: (matchId: string) => void;
+}
+
+const playerLabel = (player: MatchPlayer) => player.model || player.provider;
+
+// Result of a game from one player's point of view
+const resultSymbol = (game: TournamentGame, player: number) => {
+  if (game.status === 'running') return '…';
+  if (game.status !== 'finished' || !game.result || game.result === '*') return '·';
+  if (game.result === '1/2-1/2') return '½';
+  return (game.result === '1-0') === (game.white === player) ? '1' : '0';
+};
+
+const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  'round-robin': 'Round-robin',
+  swiss: 'Swiss',
+  gauntlet: 'Gauntlet',
+};
+
+const formatPoints = (points: number) => Number.isInteger(points) ? String(points) : points.toFixed(1).replace('.5', '½').replace(/^0½/, '½');
+
+export const TournamentPage: React.FC<TournamentPageProps> = ({
+  providers,
+  initialTournamentId,
+  onTournamentStarted,
+  onBack,
+  onWatchGame,
+}) => {
+  const [tournamentId, setTournamentId] = useState<string | null>(initialTournamentId);
+  const [tournament, setTournament] = useState<TournamentState | null>(null);
+  const [entries, setEntries] = useState<MatchPlayer[]>(() => {
+    const provider = providers.find(p => p.models.length > 0);
+    if (!provider) return [];
+    return provider.models.slice(0, 2).map(m => ({ provider: provider.id, model: m.id }));
+  });
+  const [format, setFormat] = useState<TournamentFormat>('round-robin');
+  const [double, setDouble] = useState(true);
+  // Empty means the server default, ceil(log2(players)) + 1
+  const [rounds, setRounds] = useState('');
+  const [gamesPerOpponent, setGamesPerOpponent] = useState(2);
+  const [concurrency, setConcurrency] = useState(2);
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const finished = tournament !== null && tournament.status !== 'running';
+
+  // Follow live standings until the tournament is over
+  useEffect(() => {
+    if (!tournamentId || finished) return;
+    return apiService.subscribeToTournament(tournamentId, setTournament);
+  }, [tournamentId, finished]);
+
+  const updateEntry = (index: number, entry: MatchPlayer) => {
+    setEntries(prev => prev.map((e, i) => i === index ? entry : e));
+  };
+
+  const handleProviderChange = (index: number, providerId: string) => {
+    const firstModel = providers.find(p => p.id === providerId)?.models[0]?.id;
+    updateEntry(index, { provider: providerId, model: firstModel });
+  };
+
+  const handleAddPlayer = () => {
+    const provider = providers.find(p => p.models.length > 0) || providers[0];
+    if (!provider) return;
+    setEntries(prev => [...prev, { provider: provider.id, model: provider.models[0]?.id }]);
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    setError(null);
+    try {
+      const state = await apiService.startTournament(entries, {
+        format,
+        double,
+        rounds: rounds ? parseInt(rounds, 10) : undefined,
+        gamesPerOpponent,
+        concurrency,
+      });
+      setTournament(state);
+      setTournamentId(state.id);
+      onTournamentStarted(state.id);
+      window.history.replaceState(null, '', `?tournament=${encodeURIComponent(state.id)}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start tournament');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleAbort = async () => {
+    if (!tournamentId) return;
+    try {
+      setTournament(await apiService.abortTournament(tournamentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to abort tournament');
+    }
+  };
+
+  const renderSetup = () => (
+    <div className="tp-setup">
+      <label className="tp-concurrency">
+        Format
+        <select value={format} onChange={(e) => setFormat(e.target.value as TournamentFormat)}>
+          {Object.entries(FORMAT_LABELS).map(([id, label]) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+      </label>
+      {format === 'gauntlet' && (
+        <div className="tp-progress">The first player is the challenger and plays every other player.</div>
+      )}
+
+      {entries.map((entry, index) => (
+        <div key={index} className="tp-entry">
+          <span className="tp-seed" title={format === 'gauntlet' && index === 0 ? 'Challenger' : undefined}>
+            {format === 'gauntlet' && index === 0 ? 'C' : index + 1}
+          </span>
+          <select value={entry.provider} onChange={(e) => handleProviderChange(index, e.target.value)}>
+            {providers.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <select value={entry.model || ''} onChange={(e) => updateEntry(index, { ...entry, model: e.target.value })}>
+            {(providers.find(p => p.id === entry.provider)?.models || []).map(m => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+          <button className="tp-remove" onClick={() => setEntries(prev => prev.filter((_, i) => i !== index))} title="Remove player">×</button>
+        </div>
+      ))}
+      <button className="tp-add" onClick={handleAddPlayer} disabled={providers.length === 0}>+ Add player</button>
+
+      {format === 'round-robin' && (
+        <label className="server-toggle">
+          <input type="checkbox" checked={double} onChange={(e) => setDouble(e.target.checked)} />
+          Double round-robin (every pairing with both colors)
+        </label>
+      )}
+      {format === 'swiss' && (
+        <label className="tp-concurrency">
+          Rounds
+          <input
+            type="number"
+            min={1}
+            placeholder="auto"
+            value={rounds}
+            onChange={(e) => setRounds(e.target.value)}
+          />
+        </label>
+      )}
+      {format === 'gauntlet' && (
+        <label className="tp-concurrency">
+          Games per opponent
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={gamesPerOpponent}
+            onChange={(e) => setGamesPerOpponent(Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 20))}
+          />
+        </label>
+      )}
+      <label className="tp-concurrency">
+        Games at once
+        <input
+          type="number"
+          min={1}
+          max={8}
+          value={concurrency}
+          onChange={(e) => setConcurrency(Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), 8))}
+        />
+      </label>
+
+      <button className="btn-start" onClick={handleStart} disabled={entries.length < 2 || starting}>
+        {starting ? 'Starting...' : `Start Tournament (${entries.length} players)`}
+      </button>
+    </div>
+  );
+
+  const renderTournament = (t: TournamentState) => {
+    const seeds = t.players.map((_, i) => i);
+    const played = t.games.filter(g => g.status === 'finished').length;
+
+    return (
+      <>
+        <div className="tp-progress">
+          {t.status === 'running' ? 'Running' : t.status === 'finished' ? 'Finished' : 'Aborted'}
+          {' · '}{played}/{t.games.length} games
+          {' · '}{t.format === 'round-robin' ? `${t.options.double ? 'double' : 'single'} round-robin` : FORMAT_LABELS[t.format]}
+          {t.format === 'swiss' && ` · round ${t.currentRound}/${t.options.rounds}`}
+        </div>
+        {t.stoppedReason && <div className="err-box">Stopped early: {t.stoppedReason}</div>}
+
+        <table className="tp-table">
+          <thead>
+            <tr>
+              <th>#</th><th className="tp-name">Player</th><th>Pts</th><th>W</th><th>D</th><th>L</th><th>Forfeits</th>{t.byes.length > 0 && <th>Byes</th>}<th>SB</th>
+            </tr>
+          </thead>
+          <tbody>
+            {t.standings.map((s, rank) => (
+              <tr key={s.player}>
+                <td>{rank + 1}</td>
+                <td className="tp-name">{playerLabel(t.players[s.player])}</td>
+                <td className="tp-points">{formatPoints(s.points)}</td>
+                <td>{s.wins}</td>
+                <td>{s.draws}</td>
+                <td>{s.losses}</td>
+                <td>{s.forfeits}</td>
+                {t.byes.length > 0 && <td>{s.byes}</td>}
+                <td>{s.sonnebornBerger.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="ml-head">Crosstable</div>
+        <table className="tp-table tp-cross">
+          <thead>
+            <tr>
+              <th className="tp-name">Player</th>
+              {seeds.map(i => <th key={i} title={playerLabel(t.players[i])}>{i + 1}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {seeds.map(row => (
+              <tr key={row}>
+                <td className="tp-name">{row + 1}. {playerLabel(t.players[row])}</td>
+                {seeds.map(col => (
+                  <td key={col} className={row === col ? 'tp-self' : undefined}>
+                    {row !== col && t.games
+                      .filter(g => (g.white === row && g.black === col) || (g.white === col && g.black === row))
+                      .map((g, i) => (
+                        <button
+                          key={i}
+                          className="tp-result"
+                          disabled={!g.matchId}
+                          onClick={() => g.matchId && onWatchGame(g.matchId)}
+                          title={`Round ${g.round}, ${g.white === row ? 'white' : 'black'}${g.termination ? `: ${g.termination}` : ''}`}
+                        >
+                          {resultSymbol(g, row)}
+                        </button>
+                      ))}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="ml-head">Games</div>
+        <div className="tp-games">
+          {t.games.map((g, i) => (
+            <div key={i} className="tp-game">
+              <span className="ml-num">R{g.round}</span>
+              <span className="tp-pairing">{playerLabel(t.players[g.white])} – {playerLabel(t.players[g.black])}</span>
+              <span className="tp-score">{g.status === 'finished' ? g.result : g.status}</span>
+              {g.matchId && (
+                <button className="tp-watch" onClick={() => onWatchGame(g.matchId!)}>
+                  {g.status === 'running' ? 'Watch' : 'View'}
+                </button>
+              )}
+            </div>
+          ))}
+          {t.byes.map(b => (
+            <div key={`bye-${b.round}`} className="tp-game">
+              <span className="ml-num">R{b.round}</span>
+              <span className="tp-pairing">{playerLabel(t.players[b.player])}</span>
+              <span className="tp-score">bye (+1)</span>
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="tournament-page">
+      <div className="tp-head">
+        <button className="tp-back" onClick={onBack}>← Board</button>
+        <h2>{tournament?.name || 'New Tournament'}</h2>
+        {tournament?.status === 'running' && (
+          <button className="tp-back" onClick={handleAbort}>Abort</button>
+        )}
+      </div>
+      {error && <div className="err-box">{error}</div>}
+      {tournament ? renderTournament(tournament) : tournamentId ? (
+        <div className="ml-empty">Loading tournament...</div>
+      ) : renderSetup()}
+    </div>
+  );
+};
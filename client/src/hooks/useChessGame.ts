@@ -1,13 +1,77 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { Chess } from 'chess.js';
-import { apiService, type GameState, type AIMoveRequest } from '../services/api';
+import { Chess, type Move } from 'chess.js';
+import { apiService, isAbortError, LimitError, type GameState, type AIMoveRequest, type BoardEncoding, type Clocks, type ConversationOptions, type ToolOptions, type GameUsage, type MatchPlayer, type MoveDetails, type MatchState, type RatedResult, type TimeControl, type TokenUsage } from '../services/api';
+import { addUsage } from '../utils/usage';
+import { encodingTag } from '../utils/encodings';
 import { chessSounds } from '../utils/sounds';
 
 export interface AISettings {
+  whiteProvider: string;
   whiteModel: string;
+  blackProvider: string;
   blackModel: string;
+  // Prompt templates, the server default when unset
+  whitePrompt?: string;
+  blackPrompt?: string;
+  // Board and legal-move encodings, the server default when unset
+  whiteEncoding?: BoardEncoding;
+  blackEncoding?: BoardEncoding;
+  // Conversation mode per side, off when unset
+  whiteConversation?: ConversationOptions;
+  blackConversation?: ConversationOptions;
+  // Tool mode per side, off when unset
+  whiteTools?: ToolOptions;
+  blackTools?: ToolOptions;
+  // Pasted FEN or PGN to start from, empty for the initial position
+  startPosition: string;
+  // Ply of a pasted PGN to start after, defaults to its final position
+  startPly?: number;
+  // Enforced by the server, so only used for server-run matches
+  timeControl?: TimeControl;
 }
 
+export interface MatchClocks {
+  clocks: Clocks;
+  // Side whose clock is running and since when (epoch ms)
+  running: 'w' | 'b' | null;
+  since: number | null;
+}
+
+const RATED_RESULTS: RatedResult[] = ['1-0', '0-1', '1/2-1/2'];
+
+const settingsPlayers = (settings: AISettings): { white: MatchPlayer; black: MatchPlayer } => ({
+  white: { provider: settings.whiteProvider, model: settings.whiteModel, prompt: settings.whitePrompt, tools: settings.whiteTools },
+  black: { provider: settings.blackProvider, model: settings.blackModel, prompt: settings.blackPrompt, tools: settings.blackTools },
+});
+
+// Offer text as a file download
+const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Play the sound matching a move that was just made on the board
+const playMoveSound = (move: Move, inCheck: boolean) => {
+  if (move.captured) {
+    chessSounds.playCapture();
+  } else if (move.flags.includes('k') || move.flags.includes('q')) {
+    chessSounds.playCastle();
+  } else if (move.promotion) {
+    chessSounds.playPromote();
+  } else {
+    chessSounds.playMove();
+  }
+  
+  // Check for check
+  if (inCheck) {
+    chessSounds.playCheck();
+  }
+};
+
 export const useChessGame = () => {
   const [gameId] = useState(() => `game_${Date.now()}`);
   const [game, setGame] = useState(() => new Chess());
@@ -20,8 +84,18 @@ export const useChessGame = () => {
   const [invalidMove, setInvalidMove] = useState<{ from: string; to: string } | null>(null);
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [lastReasoning, setLastReasoning] = useState<string | null>(null);
+  const [lastCorrections, setLastCorrections] = useState(0);
+  const [totalCorrections, setTotalCorrections] = useState({ w: 0, b: 0 });
+  // Tokens and estimated cost per side, and of the last answer
+  const [gameUsage, setGameUsage] = useState<GameUsage>({});
+  const [lastUsage, setLastUsage] = useState<TokenUsage | null>(null);
   const [moveCount, setMoveCount] = useState(0);
   const [forfeitResult, setForfeitResult] = useState<{ result: string; reason: string } | null>(null);
+  // Server-run match this client is attached to (spectating instead of driving the game loop)
+  const [matchId, setMatchId] = useState<string | null>(null);
+  const [matchPlayers, setMatchPlayers] = useState<{ white: MatchPlayer; black: MatchPlayer } | null>(null);
+  const [matchResult, setMatchResult] = useState<{ result: string; reason: string } | null>(null);
+  const [matchClocks, setMatchClocks] = useState<MatchClocks | null>(null);
 
   // Refs to avoid stale closures in the game loop
   const gameRef = useRef(game);
@@ -29,28 +103,82 @@ export const useChessGame = () => {
   const isThinkingRef = useRef(isThinking);
   const aiSettingsRef = useRef<AISettings | null>(null);
   const retryCountRef = useRef(0);
+  // Identifies the current local game in reported results and PGN exports
+  const localGameIdRef = useRef(gameId);
+  const reportedResultRef = useRef<string | null>(null);
   const uciHistoryRef = useRef<string[]>([]);
+  const startFenRef = useRef(new Chess().fen());
+  const matchIdRef = useRef<string | null>(null);
+  // Bumped whenever the board is replaced; AI answers from an older generation are dropped
+  const generationRef = useRef(0);
+  const moveControllerRef = useRef<AbortController | null>(null);
+  // Server record of the running local game (null once it ended or when saving is unavailable),
+  // and the chain that keeps its saves in order
+  const storedGameIdRef = useRef<string | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
 
   useEffect(() => { gameRef.current = game; }, [game]);
   useEffect(() => { gameActiveRef.current = gameActive; }, [gameActive]);
   useEffect(() => { isThinkingRef.current = isThinking; }, [isThinking]);
 
-  const startGame = useCallback(async () => {
+  // Cancel the in-flight AI request (client retries and the server's model call) and orphan its answer
+  const cancelPendingMove = useCallback(() => {
+    generationRef.current += 1;
+    moveControllerRef.current?.abort();
+    moveControllerRef.current = null;
+    setIsThinking(false);
+    isThinkingRef.current = false;
+  }, []);
+
+  // Saving is best effort: a failed request is logged and never interrupts play
+  const saveToServer = useCallback((save: (id: string) => Promise<unknown>) => {
+    const id = storedGameIdRef.current;
+    if (!id) return;
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => save(id))
+      .then(() => undefined, err => console.error('❌ Failed to save game:', err));
+  }, []);
+
+  // Resignations, forfeits and abandoned games; the server ends games finished on the board itself
+  const endStoredGame = useCallback((result: RatedResult | '*', termination: string) => {
+    saveToServer(id => apiService.endGame(id, result, termination));
+    storedGameIdRef.current = null;
+  }, [saveToServer]);
+
+  const startGame = useCallback(async (startFen?: string) => {
+    cancelPendingMove();
+    endStoredGame('*', 'Abandoned');
     setIsLoading(true);
     setError(null);
     
     try {
-      // Initialize game locally (no server needed for AI vs AI)
-      const newGame = new Chess();
+      // The game is played locally and saved on the server, which assigns its id
+      const newGame = new Chess(startFen);
+      const settings = aiSettingsRef.current;
+      try {
+        const state = await apiService.startGame(startFen, settings ? settingsPlayers(settings) : undefined);
+        storedGameIdRef.current = state.gameId;
+        localGameIdRef.current = state.gameId;
+      } catch (err) {
+        console.warn('⚠️ Game will not be saved:', err);
+        storedGameIdRef.current = null;
+        localGameIdRef.current = `game_${Date.now()}`;
+      }
       
       setGame(newGame);
       gameRef.current = newGame;
+      startFenRef.current = newGame.fen();
+      uciHistoryRef.current = [];
       setGameState(null);
       setGameActive(true);
       gameActiveRef.current = true;
       setLastMove(null);
       setSelectedSquare(null);
       setLastReasoning(null);
+      setLastCorrections(0);
+      setTotalCorrections({ w: 0, b: 0 });
+      setGameUsage({});
+      setLastUsage(null);
       setMoveCount(0);
       retryCountRef.current = 0;
       
@@ -61,9 +189,9 @@ export const useChessGame = () => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [cancelPendingMove, endStoredGame]);
 
-  const makeMove = useCallback(async (from: string, to: string, promotion?: string) => {
+  const makeMove = useCallback(async (from: string, to: string, promotion?: string, details?: MoveDetails) => {
     if (!gameActiveRef.current) {
       console.log('❌ makeMove blocked: gameActive=', gameActiveRef.current);
       return false;
@@ -89,20 +217,7 @@ export const useChessGame = () => {
         uciHistoryRef.current = [...uciHistoryRef.current, uciMove];
         
         // Play appropriate sound
-        if (move.captured) {
-          chessSounds.playCapture();
-        } else if (move.flags.includes('k') || move.flags.includes('q')) {
-          chessSounds.playCastle();
-        } else if (move.promotion) {
-          chessSounds.playPromote();
-        } else {
-          chessSounds.playMove();
-        }
-        
-        // Check for check
-        if (g.inCheck()) {
-          chessSounds.playCheck();
-        }
+        playMoveSound(move, g.inCheck());
         
         // Update state with the mutated game (use the same instance to preserve history)
         setGame(g);
@@ -110,8 +225,10 @@ export const useChessGame = () => {
         setLastMove({ from, to });
         setSelectedSquare(null);
         setMoveCount(c => c + 1);
+        saveToServer(id => apiService.makeMove(id, from, to, promotion, details));
 
         if (g.isGameOver()) {
+          storedGameIdRef.current = null;
           setGameActive(false);
           gameActiveRef.current = false;
           chessSounds.playGameEnd();
@@ -128,7 +245,7 @@ export const useChessGame = () => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [saveToServer]);
 
   const doAIMove = useCallback(async () => {
     const settings = aiSettingsRef.current;
@@ -139,10 +256,18 @@ export const useChessGame = () => {
     setIsThinking(true);
     isThinkingRef.current = true;
     setError(null);
+    const generation = generationRef.current;
+    const controller = new AbortController();
+    moveControllerRef.current = controller;
 
     try {
       const currentTurn = g.turn();
+      const provider = currentTurn === 'w' ? settings.whiteProvider : settings.blackProvider;
       const model = currentTurn === 'w' ? settings.whiteModel : settings.blackModel;
+      const prompt = currentTurn === 'w' ? settings.whitePrompt : settings.blackPrompt;
+      const encoding = currentTurn === 'w' ? settings.whiteEncoding : settings.blackEncoding;
+      const conversation = currentTurn === 'w' ? settings.whiteConversation : settings.blackConversation;
+      const tools = currentTurn === 'w' ? settings.whiteTools : settings.blackTools;
 
       // Get legal moves in UCI format
       const verboseMoves = g.moves({ verbose: true });
@@ -177,18 +302,33 @@ export const useChessGame = () => {
       const piecesMoves = Array.from(pieceMovesMap.values());
 
       const request: AIMoveRequest = {
-        provider: 'openrouter',
+        provider,
         model,
         fen: g.fen(),
         moveHistory: uciHistoryRef.current,
+        startFen: startFenRef.current,
+        moveHistorySan: g.history(),
         playerColor: currentTurn,
         legalMoves,
         piecesMoves,
+        prompt,
+        encoding,
+        conversation,
+        gameId: conversation ? localGameIdRef.current : undefined,
+        tools,
       };
 
       console.log('🤖 Requesting AI move:', request);
-      const response = await apiService.getAIMove(request);
+      const requestedAt = Date.now();
+      const response = await apiService.getAIMove(request, controller.signal);
+      const latencyMs = Date.now() - requestedAt;
+      if (generation !== generationRef.current) return;
       console.log('✅ AI response:', response);
+      // Billed whether or not the move turns out to be playable
+      setLastUsage(response.usage || null);
+      if (response.usage) {
+        setGameUsage(u => ({ ...u, [currentTurn]: addUsage(u[currentTurn], response.usage) }));
+      }
       
       if (response.success && response.move) {
         const moveUci = response.move;
@@ -196,12 +336,19 @@ export const useChessGame = () => {
         const to = moveUci.substring(2, 4);
         const promotion = moveUci.length > 4 ? moveUci[4] : undefined;
 
-        console.log(`🎯 Parsed move: from=${from}, to=${to}, promotion=${promotion}`);
+        console.log(`🎯 Parsed move: from=${from}, to=${to}, promotion=${promotion}, written as ${response.notation || 'uci'}`);
 
         if (response.reasoning) {
           setLastReasoning(response.reasoning);
         }
 
+        // Server-side re-prompts after illegal answers
+        const corrections = response.corrections || 0;
+        setLastCorrections(corrections);
+        if (corrections > 0) {
+          setTotalCorrections(t => ({ ...t, [currentTurn]: t[currentTurn] + corrections }));
+        }
+
         const validMoves = g.moves({ verbose: true });
         console.log(`📋 Valid moves available:`, validMoves.map(m => `${m.from}->${m.to}`).join(', '));
         console.log(`🔍 Looking for move: ${from}->${to}${promotion ? ` (promotion: ${promotion})` : ''}`);
@@ -216,12 +363,17 @@ export const useChessGame = () => {
           console.log('📍 Calling makeMove...');
           // Clear any previous invalid move display
           setInvalidMove(null);
-          const result = await makeMove(from, to, promotion);
+          const result = await makeMove(from, to, promotion, { reasoning: response.reasoning, latencyMs, corrections });
           console.log('📍 makeMove result:', result);
           
           if (result) {
             // Move succeeded, reset retry counter
             retryCountRef.current = 0;
+            // Keep reasoning and latency with the move for PGN export
+            const comment = [response.reasoning?.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim(), `latency ${latencyMs}ms`]
+              .filter(Boolean)
+              .join(' | ');
+            gameRef.current.setComment(comment);
           } else {
             // Move failed, increment retry counter
             retryCountRef.current += 1;
@@ -233,6 +385,7 @@ export const useChessGame = () => {
               const winner = currentTurn === 'w' ? 'Black' : 'White';
               const result = winner === 'White' ? '1-0' : '0-1';
               setForfeitResult({ result, reason: `${loser} forfeits after 3 invalid move attempts` });
+              endStoredGame(result, `${loser} forfeits after 3 invalid move attempts`);
               setError(`${loser} forfeits after 3 invalid move attempts. ${winner} wins!`);
               setGameActive(false);
               gameActiveRef.current = false;
@@ -254,6 +407,7 @@ export const useChessGame = () => {
             const result = winner === 'White' ? '1-0' : '0-1';
             console.error(`❌ ${loser} suggested invalid move 3 times:`, moveUci);
             setForfeitResult({ result, reason: `${loser} forfeits after 3 invalid move attempts` });
+            endStoredGame(result, `${loser} forfeits after 3 invalid move attempts`);
             setError(`${loser} forfeits after 3 invalid move attempts. ${winner} wins!`);
             setGameActive(false);
             gameActiveRef.current = false;
@@ -268,17 +422,38 @@ export const useChessGame = () => {
       } else {
         console.error('❌ AI failed to provide valid move');
         setError('AI failed to provide a valid move');
+        endStoredGame('*', 'AI failed to provide a valid move');
         setGameActive(false);
         gameActiveRef.current = false;
       }
     } catch (err) {
+      if (isAbortError(err) || generation !== generationRef.current) return;
+      if (err instanceof LimitError && err.code === 'BUDGET_EXCEEDED') {
+        setError(`Budget exceeded: ${err.message}`);
+        endStoredGame('*', `Budget exceeded: ${err.message}`);
+        setGameActive(false);
+        gameActiveRef.current = false;
+        return;
+      }
+      if (err instanceof LimitError) {
+        const retryAfterMs = err.retryAfterMs ?? 1000;
+        setError(`${err.message}. Retrying in ${Math.ceil(retryAfterMs / 1000)}s...`);
+        setTimeout(() => {
+          if (generation === generationRef.current) setMoveCount(c => c + 1);
+        }, retryAfterMs);
+        return;
+      }
       console.error('❌ AI move error:', err);
       setError(err instanceof Error ? err.message : 'Failed to get AI move');
     } finally {
-      setIsThinking(false);
-      isThinkingRef.current = false;
+      // A newer game owns the thinking flag by now
+      if (generation === generationRef.current) {
+        moveControllerRef.current = null;
+        setIsThinking(false);
+        isThinkingRef.current = false;
+      }
     }
-  }, [makeMove]);
+  }, [makeMove, endStoredGame]);
 
   // Effect-driven game loop: triggers after every move
   useEffect(() => {
@@ -292,52 +467,245 @@ export const useChessGame = () => {
     return () => clearTimeout(timer);
   }, [gameActive, moveCount, doAIMove]);
 
-  const startAIVsAIGame = useCallback(async (aiSettings: AISettings) => {
+  const startAIVsAIGame = useCallback(async (aiSettings: AISettings, startFen?: string) => {
     aiSettingsRef.current = aiSettings;
-    await startGame();
+    await startGame(startFen);
   }, [startGame]);
 
+  // Bring the local board in sync with the server's view of the match
+  const applyMatchState = useCallback((state: MatchState) => {
+    if (matchIdRef.current !== state.id) return;
+
+    let g = gameRef.current;
+    const played = g.history().length;
+    if (played > state.moves.length || (played === 0 && g.fen() !== state.startFen)) {
+      g = new Chess(state.startFen);
+    }
+
+    const newMoves = state.moves.slice(g.history().length);
+    for (const m of newMoves) {
+      const move = g.move({ from: m.uci.substring(0, 2), to: m.uci.substring(2, 4), promotion: m.uci[4] });
+      if (m === newMoves[newMoves.length - 1]) {
+        playMoveSound(move, g.inCheck());
+      }
+    }
+
+    setGame(g);
+    gameRef.current = g;
+    uciHistoryRef.current = state.moves.map(m => m.uci);
+    setMatchPlayers({ white: state.white, black: state.black });
+    setIsThinking(state.thinking !== null);
+    setGameUsage(state.usage || {});
+    setMatchClocks(state.clocks ? {
+      clocks: state.clocks,
+      running: state.status === 'running' ? state.thinking : null,
+      since: state.turnStartedAt ? Date.parse(state.turnStartedAt) : null,
+    } : null);
+
+    const last = state.moves[state.moves.length - 1];
+    if (newMoves.length > 0 && last) {
+      setLastMove({ from: last.uci.substring(0, 2), to: last.uci.substring(2, 4) });
+      setLastReasoning(last.reasoning || null);
+      setLastCorrections(last.corrections || 0);
+      setLastUsage(last.usage || null);
+      setTotalCorrections({
+        w: state.moves.filter(m => m.color === 'w').reduce((sum, m) => sum + (m.corrections || 0), 0),
+        b: state.moves.filter(m => m.color === 'b').reduce((sum, m) => sum + (m.corrections || 0), 0),
+      });
+      setMoveCount(state.moves.length);
+    }
+
+    if (state.status !== 'running') {
+      if (gameActiveRef.current) {
+        chessSounds.playGameEnd();
+      }
+      setGameActive(false);
+      gameActiveRef.current = false;
+      setMatchResult({ result: state.result || '*', reason: state.termination || 'Game over' });
+    }
+  }, []);
+
+  // Spectate a match that is played on the server
+  const attachToMatch = useCallback(async (id: string) => {
+    cancelPendingMove();
+    endStoredGame('*', 'Abandoned');
+    const newGame = new Chess();
+    setGame(newGame);
+    gameRef.current = newGame;
+    aiSettingsRef.current = null;
+    uciHistoryRef.current = [];
+    matchIdRef.current = id;
+    setMatchId(id);
+    setMatchResult(null);
+    setMatchClocks(null);
+    setForfeitResult(null);
+    setLastMove(null);
+    setInvalidMove(null);
+    setLastReasoning(null);
+    setLastCorrections(0);
+    setTotalCorrections({ w: 0, b: 0 });
+    setGameUsage({});
+    setLastUsage(null);
+    setError(null);
+    setGameActive(true);
+    gameActiveRef.current = true;
+
+    try {
+      applyMatchState(await apiService.getMatch(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load match');
+      setGameActive(false);
+      gameActiveRef.current = false;
+    }
+  }, [applyMatchState, cancelPendingMove, endStoredGame]);
+
+  const startServerMatch = useCallback(async (aiSettings: AISettings, startFen?: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const state = await apiService.startMatch(
+        { provider: aiSettings.whiteProvider, model: aiSettings.whiteModel, prompt: aiSettings.whitePrompt, encoding: aiSettings.whiteEncoding, conversation: aiSettings.whiteConversation, tools: aiSettings.whiteTools },
+        { provider: aiSettings.blackProvider, model: aiSettings.blackModel, prompt: aiSettings.blackPrompt, encoding: aiSettings.blackEncoding, conversation: aiSettings.blackConversation, tools: aiSettings.blackTools },
+        aiSettings.timeControl ? { timeControl: aiSettings.timeControl } : undefined,
+        startFen,
+      );
+      chessSounds.playGameStart();
+      await attachToMatch(state.id);
+      return state.id;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start match');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [attachToMatch]);
+
+  const abortMatch = useCallback(async () => {
+    const id = matchIdRef.current;
+    if (!id) return;
+    try {
+      applyMatchState(await apiService.abortMatch(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to abort match');
+    }
+  }, [applyMatchState]);
+
+  // Follow the attached match's live event stream until it finishes
+  useEffect(() => {
+    if (!matchId || !gameActive) return;
+
+    let state: MatchState | null = null;
+    return apiService.subscribeToMatch(matchId, event => {
+      switch (event.type) {
+        case 'snapshot':
+          // Also sent again after a reconnect
+          state = event.data;
+          setError(null);
+          break;
+        case 'thinking':
+          if (state) {
+            state = { ...state, thinking: event.data.color, clocks: event.data.clocks ?? state.clocks, turnStartedAt: event.data.timestamp };
+          }
+          break;
+        case 'move': {
+          const { clocks, gameUsage: usage, ...move } = event.data;
+          if (state) {
+            state = { ...state, moves: [...state.moves, move], fen: move.fen, thinking: null, clocks: clocks ?? state.clocks, usage: usage ?? state.usage };
+          }
+          setInvalidMove(null);
+          setError(null);
+          break;
+        }
+        case 'invalid_move':
+          setInvalidMove({ from: event.data.move.substring(0, 2), to: event.data.move.substring(2, 4) });
+          setError(`Invalid move attempt ${event.data.attempts}/${event.data.maxInvalidMoves}. Retrying...`);
+          if (state) state = { ...state, thinking: null, clocks: event.data.clocks ?? state.clocks, usage: event.data.gameUsage ?? state.usage };
+          break;
+        case 'match_error':
+          setError('code' in event.data
+            ? `${event.data.message}, paused for ${Math.ceil(event.data.retryAfterMs / 1000)}s`
+            : `${event.data.message} (attempt ${event.data.attempts}/${event.data.maxInvalidMoves})`);
+          if (state) state = { ...state, thinking: null, clocks: event.data.clocks ?? state.clocks };
+          break;
+        case 'game_over':
+          if (state) {
+            state = {
+              ...state,
+              status: event.data.status,
+              result: event.data.result,
+              termination: event.data.termination,
+              thinking: null,
+              clocks: event.data.clocks ?? state.clocks,
+            };
+          }
+          break;
+        case 'reasoning':
+          // Reasoning also arrives on the move event
+          return;
+      }
+      if (state) applyMatchState(state);
+    }, reconnecting => {
+      setError(reconnecting ? 'Lost connection to the match, reconnecting...' : 'Lost connection to the match');
+    });
+  }, [matchId, gameActive, applyMatchState]);
+
   const resign = useCallback(() => {
     if (!gameActiveRef.current) return;
+    cancelPendingMove();
     setGameActive(false);
     gameActiveRef.current = false;
     const winner = gameRef.current.turn() === 'w' ? 'Black' : 'White';
+    endStoredGame(winner === 'White' ? '1-0' : '0-1', `${winner === 'White' ? 'Black' : 'White'} resigns`);
     setError(`${winner} wins by resignation`);
-  }, []);
+  }, [cancelPendingMove, endStoredGame]);
 
   const resetGame = useCallback(() => {
+    cancelPendingMove();
+    endStoredGame('*', 'Abandoned');
     const newGame = new Chess();
     setGame(newGame);
     gameRef.current = newGame;
     setGameState(null);
     setGameActive(false);
     gameActiveRef.current = false;
-    setIsThinking(false);
-    isThinkingRef.current = false;
     setError(null);
     setLastMove(null);
     setInvalidMove(null);
     setSelectedSquare(null);
     setLastReasoning(null);
+    setLastCorrections(0);
+    setTotalCorrections({ w: 0, b: 0 });
+    setGameUsage({});
+    setLastUsage(null);
     setMoveCount(0);
     setForfeitResult(null);
+    setMatchResult(null);
+    setMatchClocks(null);
+    setMatchId(null);
+    setMatchPlayers(null);
+    matchIdRef.current = null;
     uciHistoryRef.current = [];
     aiSettingsRef.current = null;
-  }, []);
+  }, [cancelPendingMove, endStoredGame]);
 
   const handleSquareSelect = useCallback((square: string | null) => {
     setSelectedSquare(square);
   }, []);
 
   const isGameOver = useCallback(() => {
-    return forfeitResult !== null || game.isCheckmate() || game.isStalemate() || game.isDraw() || game.isThreefoldRepetition() || game.isInsufficientMaterial();
-  }, [game, forfeitResult]);
+    return forfeitResult !== null || matchResult !== null || game.isCheckmate() || game.isStalemate() || game.isDraw() || game.isThreefoldRepetition() || game.isInsufficientMaterial();
+  }, [game, forfeitResult, matchResult]);
 
   const getGameResult = useCallback(() => {
     // Check for forfeit first
     if (forfeitResult) {
       return forfeitResult;
     }
+    // Server-run matches carry their own result and termination reason
+    if (matchResult) {
+      return matchResult;
+    }
     if (game.isCheckmate()) {
       const winner = game.turn() === 'w' ? 'Black' : 'White';
       return { result: winner === 'White' ? '1-0' : '0-1', reason: `${winner} wins by checkmate` };
@@ -347,7 +715,65 @@ export const useChessGame = () => {
     if (game.isThreefoldRepetition()) return { result: '1/2-1/2', reason: 'Draw by repetition' };
     if (game.isInsufficientMaterial()) return { result: '1/2-1/2', reason: 'Insufficient material' };
     return null;
-  }, [game, forfeitResult]);
+  }, [game, forfeitResult, matchResult]);
+
+  // Server matches are exported by the server, local games straight from chess.js
+  const downloadPgn = useCallback(async () => {
+    try {
+      if (matchIdRef.current) {
+        const pgn = await apiService.getGamePgn(matchIdRef.current);
+        downloadFile(pgn, `${matchIdRef.current}.pgn`, 'application/x-chess-pgn');
+        return;
+      }
+
+      const g = gameRef.current;
+      const settings = aiSettingsRef.current;
+      const outcome = getGameResult();
+      const pad = (n: number) => String(n).padStart(2, '0');
+      const now = new Date();
+      g.setHeader('Event', 'AI Chess Arena game');
+      g.setHeader('Site', 'AI Chess Arena');
+      g.setHeader('Date', `${now.getFullYear()}.${pad(now.getMonth() + 1)}.${pad(now.getDate())}`);
+      g.setHeader('Round', '-');
+      g.setHeader('White', settings?.whiteModel || settings?.whiteProvider || 'White');
+      g.setHeader('Black', settings?.blackModel || settings?.blackProvider || 'Black');
+      g.setHeader('Result', outcome?.result || '*');
+      if (outcome) g.setHeader('Termination', outcome.reason);
+      if (settings) {
+        g.setHeader('WhiteProvider', settings.whiteProvider);
+        g.setHeader('BlackProvider', settings.blackProvider);
+        if (settings.whitePrompt) g.setHeader('WhitePrompt', settings.whitePrompt);
+        if (settings.blackPrompt) g.setHeader('BlackPrompt', settings.blackPrompt);
+        if (settings.whiteEncoding) g.setHeader('WhiteEncoding', encodingTag(settings.whiteEncoding));
+        if (settings.blackEncoding) g.setHeader('BlackEncoding', encodingTag(settings.blackEncoding));
+      }
+      g.setHeader('GameId', localGameIdRef.current);
+      downloadFile(`${g.pgn()}\n`, `${localGameIdRef.current}.pgn`, 'application/x-chess-pgn');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export PGN');
+    }
+  }, [getGameResult]);
+
+  // Report every finished game once so the server can rate both models (server matches are deduplicated)
+  useEffect(() => {
+    if (gameActive) return;
+    const outcome = getGameResult();
+    if (!outcome || !RATED_RESULTS.includes(outcome.result as RatedResult)) return;
+
+    const id = matchIdRef.current || localGameIdRef.current;
+    const settings = aiSettingsRef.current;
+    const players = matchPlayers ?? (settings && settingsPlayers(settings));
+    if (!players || reportedResultRef.current === id) return;
+
+    reportedResultRef.current = id;
+    apiService.recordResult({
+      gameId: id,
+      white: players.white,
+      black: players.black,
+      result: outcome.result as RatedResult,
+      termination: outcome.reason,
+    }).catch(err => console.error('❌ Failed to record result:', err));
+  }, [gameActive, moveCount, matchPlayers, getGameResult]);
 
   return {
     gameId,
@@ -361,10 +787,21 @@ export const useChessGame = () => {
     invalidMove,
     selectedSquare,
     lastReasoning,
+    lastCorrections,
+    totalCorrections,
+    gameUsage,
+    lastUsage,
     startGame,
     makeMove,
     getAndExecuteAIMove: doAIMove,
     startAIVsAIGame,
+    startServerMatch,
+    attachToMatch,
+    abortMatch,
+    downloadPgn,
+    matchId,
+    matchPlayers,
+    matchClocks,
     resign,
     resetGame,
     handleSquareSelect,
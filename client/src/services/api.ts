@@ -1,24 +1,55 @@
 const API_BASE_URL = '/api';
 
-// Retry utility function
+// Wait, rejecting with the signal's AbortError as soon as it aborts
+const abortableDelay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// A server budget or rate limit was reached; retrying right away would only hit it again
+export class LimitError extends Error {
+  code: 'BUDGET_EXCEEDED' | 'RATE_LIMITED';
+  retryAfterMs?: number;
+
+  constructor(code: LimitError['code'], message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LimitError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Retry utility function; an aborted signal stops retrying and rethrows its AbortError
 async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
-  delayMs: number = 1000
+  delayMs: number = 1000,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: Error | undefined;
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    signal?.throwIfAborted();
     try {
       return await fn();
     } catch (error) {
+      signal?.throwIfAborted();
+      if (error instanceof LimitError) throw error;
       lastError = error instanceof Error ? error : new Error('Unknown error');
       console.log(`⚠️ API Attempt ${attempt}/${maxRetries} failed: ${lastError.message}`);
       
       if (attempt < maxRetries) {
         const delay = delayMs * attempt; // Exponential backoff
         console.log(`⏳ Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await abortableDelay(delay, signal);
       }
     }
   }
@@ -26,6 +57,8 @@ async function retryWithBackoff<T>(
   throw lastError || new Error('All retry attempts failed');
 }
 
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
 export interface GameState {
   gameId: string;
   fen: string;
@@ -38,6 +71,13 @@ export interface GameState {
   pgn: string;
 }
 
+// What the client knows about an AI move it played, stored with the move
+export interface MoveDetails {
+  reasoning?: string;
+  latencyMs?: number;
+  corrections?: number;
+}
+
 export interface MoveResult {
   success: boolean;
   move: {
@@ -57,10 +97,36 @@ export interface MoveResult {
   gameOver: boolean;
 }
 
+// USD per token
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+  request?: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextLength?: number;
+  pricing?: ModelPricing;
+  structuredOutputs?: boolean;
+  reasoning?: boolean;
+  tools?: boolean;
+}
+
+// Capability filters understood by /api/ai/providers and /api/ai/models/search
+export interface ModelFilter {
+  structuredOutputs?: boolean;
+  reasoning?: boolean;
+  tools?: boolean;
+}
+
 export interface ProviderInfo {
   id: string;
   name: string;
-  models: { id: string; name: string }[];
+  models: ModelInfo[];
+  // Supports tool mode
+  tools?: boolean;
 }
 
 export interface PieceMoves {
@@ -74,9 +140,19 @@ export interface AIMoveRequest {
   model?: string;
   fen: string;
   moveHistory: string[];
+  // Position moveHistory starts from, so engines can replay the game
+  startFen?: string;
+  moveHistorySan?: string[];
   playerColor: 'w' | 'b';
   legalMoves?: string[];
   piecesMoves?: PieceMoves[];
+  // Prompt template name, the server default when omitted
+  prompt?: string;
+  encoding?: BoardEncoding;
+  // Conversation mode replays this player's earlier turns of the game with the given id
+  conversation?: ConversationOptions;
+  gameId?: string;
+  tools?: ToolOptions;
 }
 
 export interface AIMoveResponse {
@@ -86,6 +162,34 @@ export interface AIMoveResponse {
   move: string;
   reasoning?: string;
   confidence?: number;
+  corrections?: number;
+  legal?: boolean;
+  usage?: TokenUsage;
+  prompt?: string;
+  notation?: MoveNotation;
+  toolCalls?: ToolCallRecord[];
+}
+
+// How a model wrote its move: e2e4, Ng1-f3, Nf3, O-O, or separate from/to fields
+export type MoveNotation = 'uci' | 'lan' | 'san' | 'castling' | 'fields';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  costUsd?: number;
+}
+
+export type GameUsage = { w?: TokenUsage; b?: TokenUsage };
+
+export interface UsageTotals extends TokenUsage {
+  games: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  models: (UsageTotals & { key: string; provider: string; model: string })[];
+  matchups: (UsageTotals & { players: [string, string] })[];
 }
 
 export interface AIAnalysis {
@@ -104,12 +208,202 @@ export interface AIAnalysis {
   successful: number;
 }
 
+export interface MatchPlayer {
+  provider: string;
+  model?: string;
+  temperature?: number;
+  prompt?: string;
+  encoding?: BoardEncoding;
+  conversation?: ConversationOptions;
+  tools?: ToolOptions;
+}
+
+export interface ToolOptions {
+  // Tool calls per move before submit_move is forced, server default when omitted
+  maxToolCalls?: number;
+}
+
+export interface ToolCallRecord {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+}
+
+export interface ConversationOptions {
+  // Estimated tokens of replayed history before older turns are summarized, server default when omitted
+  windowTokens?: number;
+}
+
+// How prompts show the board and legal moves, see the server's boardEncodings
+export interface BoardEncoding {
+  board: 'pieces' | 'ascii' | 'unicode' | 'fen';
+  threats?: boolean;
+  material?: boolean;
+  moves: 'by-piece' | 'uci' | 'san';
+}
+
+export interface EncodingStats {
+  model: string;
+  encoding: string;
+  games: number;
+  moves: number;
+  corrections: number;
+  forfeits: number;
+  correctionsPerMove: number;
+}
+
+export interface PromptTemplateInfo {
+  name: string;
+  description?: string;
+}
+
+export type TimeControl =
+  | { type: 'clock'; baseSeconds: number; incrementSeconds: number }
+  | { type: 'per-move'; secondsPerMove: number };
+
+// Remaining time per side in milliseconds
+export type Clocks = { w: number; b: number };
+
+export interface MatchOptions {
+  maxInvalidMoves?: number;
+  moveDelayMs?: number;
+  maxPlies?: number;
+  timeControl?: TimeControl;
+}
+
+export interface MatchMove {
+  ply: number;
+  color: 'w' | 'b';
+  uci: string;
+  san: string;
+  fen: string;
+  reasoning?: string;
+  confidence?: number;
+  corrections?: number;
+  notation?: MoveNotation;
+  toolCalls?: ToolCallRecord[];
+  latencyMs: number;
+  clockMs?: number;
+  usage?: TokenUsage;
+  timestamp: string;
+}
+
+export interface MatchState {
+  id: string;
+  white: MatchPlayer;
+  black: MatchPlayer;
+  options: Required<Omit<MatchOptions, 'timeControl'>> & Pick<MatchOptions, 'timeControl'>;
+  status: 'running' | 'finished' | 'aborted';
+  startFen: string;
+  fen: string;
+  moves: MatchMove[];
+  thinking: 'w' | 'b' | null;
+  clocks?: Clocks;
+  turnStartedAt?: string;
+  invalidAttempts: { w: number; b: number };
+  usage: GameUsage;
+  result?: '1-0' | '0-1' | '1/2-1/2' | '*';
+  termination?: string;
+  forfeitedBy?: 'w' | 'b';
+  budgetExceeded?: boolean;
+  tournamentId?: string;
+  lastError?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export type MatchEvent =
+  | { type: 'snapshot'; data: MatchState }
+  | { type: 'thinking'; data: { color: 'w' | 'b'; provider: string; model?: string; ply: number; fen: string; clocks?: Clocks; timestamp: string } }
+  | { type: 'move'; data: MatchMove & { clocks?: Clocks; gameUsage?: GameUsage } }
+  | { type: 'reasoning'; data: { ply: number; color: 'w' | 'b'; reasoning: string } }
+  | { type: 'invalid_move'; data: { color: 'w' | 'b'; move: string; fen: string; reasoning?: string; attempts: number; maxInvalidMoves: number; latencyMs: number; clocks?: Clocks; gameUsage?: GameUsage } }
+  | { type: 'game_over'; data: { status: MatchState['status']; result: MatchState['result']; termination: string; fen: string; plies: number; clocks?: Clocks; timestamp: string } }
+  | { type: 'match_error'; data: { color: 'w' | 'b'; message: string; attempts: number; maxInvalidMoves: number; latencyMs: number; clocks?: Clocks } }
+  // Paused by a server rate limit, retried without counting as an attempt
+  | { type: 'match_error'; data: { color: 'w' | 'b'; message: string; code: 'RATE_LIMITED'; retryAfterMs: number; clocks?: Clocks } };
+
+export type TournamentFormat = 'round-robin' | 'swiss' | 'gauntlet';
+
+export interface TournamentOptions {
+  format?: TournamentFormat;
+  double?: boolean;
+  rounds?: number;
+  gamesPerOpponent?: number;
+  concurrency?: number;
+  match?: MatchOptions;
+}
+
+export interface TournamentGame {
+  round: number;
+  white: number;
+  black: number;
+  status: 'pending' | 'running' | 'finished' | 'aborted';
+  matchId?: string;
+  result?: MatchState['result'];
+  termination?: string;
+  forfeitedBy?: 'w' | 'b';
+}
+
+export interface Standing {
+  player: number;
+  games: number;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  forfeits: number;
+  byes: number;
+  sonnebornBerger: number;
+}
+
+export interface TournamentState {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  players: MatchPlayer[];
+  options: Required<Omit<TournamentOptions, 'match'>> & { match: MatchOptions };
+  status: 'running' | 'finished' | 'aborted';
+  games: TournamentGame[];
+  byes: { round: number; player: number }[];
+  currentRound: number;
+  standings: Standing[];
+  stoppedReason?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export type RatedResult = '1-0' | '0-1' | '1/2-1/2';
+
+export interface PlayerRating {
+  key: string;
+  provider: string;
+  model: string;
+  // Set when rated with a non-default prompt template
+  prompt?: string;
+  // Set when rated in tool mode
+  tools?: boolean;
+  elo: number;
+  glicko: { rating: number; rd: number; volatility: number };
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  lastPlayedAt?: string;
+}
+
+// Every tournament event carries the full tournament state
+const TOURNAMENT_EVENT_TYPES = ['snapshot', 'round_started', 'game_started', 'game_finished', 'tournament_over'];
+
+const MATCH_EVENT_TYPES: MatchEvent['type'][] = ['snapshot', 'thinking', 'move', 'reasoning', 'invalid_move', 'game_over', 'match_error'];
+
 class ApiService {
-  async startGame(gameId: string): Promise<GameState> {
+  // The server assigns the game id; players default to humans
+  async startGame(fen?: string, players?: { white: MatchPlayer; black: MatchPlayer }): Promise<GameState> {
     const response = await fetch(`${API_BASE_URL}/game/start`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ gameId }),
+      body: JSON.stringify({ fen, ...players }),
     });
     if (!response.ok) throw new Error(`Failed to start game: ${response.statusText}`);
     return response.json();
@@ -121,16 +415,25 @@ class ApiService {
     return response.json();
   }
 
-  async makeMove(gameId: string, from: string, to: string, promotion?: string): Promise<MoveResult> {
+  async makeMove(gameId: string, from: string, to: string, promotion?: string, details?: MoveDetails): Promise<MoveResult> {
     const response = await fetch(`${API_BASE_URL}/game/move/${gameId}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ from, to, promotion }),
+      body: JSON.stringify({ from, to, promotion, ...details }),
     });
     if (!response.ok) throw new Error(`Failed to make move: ${response.statusText}`);
     return response.json();
   }
 
+  async endGame(gameId: string, result: RatedResult | '*', termination?: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/game/end/${gameId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ result, termination }),
+    });
+    if (!response.ok) throw new Error(`Failed to end game: ${response.statusText}`);
+  }
+
   async getLegalMoves(gameId: string, square?: string): Promise<any[]> {
     const url = square 
       ? `${API_BASE_URL}/game/moves/${gameId}/${square}`
@@ -141,6 +444,13 @@ class ApiService {
     return data.moves;
   }
 
+  async getPromptTemplates(): Promise<PromptTemplateInfo[]> {
+    const response = await fetch(`${API_BASE_URL}/ai/prompts`);
+    if (!response.ok) throw new Error(`Failed to get prompt templates: ${response.statusText}`);
+    const data = await response.json();
+    return data.templates;
+  }
+
   async getProviders(): Promise<ProviderInfo[]> {
     const response = await fetch(`${API_BASE_URL}/ai/providers`);
     if (!response.ok) throw new Error(`Failed to get providers: ${response.statusText}`);
@@ -148,23 +458,150 @@ class ApiService {
     return data.providers;
   }
 
-  async searchModels(query: string): Promise<{ id: string; name: string }[]> {
-    const response = await fetch(`${API_BASE_URL}/ai/models/search?q=${encodeURIComponent(query)}`);
+  async searchModels(query: string, provider: string = 'openrouter', filter: ModelFilter = {}): Promise<ModelInfo[]> {
+    const params = new URLSearchParams({ q: query, provider });
+    if (filter.structuredOutputs) params.set('structured', 'true');
+    if (filter.reasoning) params.set('reasoning', 'true');
+    if (filter.tools) params.set('tools', 'true');
+    const response = await fetch(`${API_BASE_URL}/ai/models/search?${params}`);
     if (!response.ok) throw new Error(`Failed to search models: ${response.statusText}`);
     const data = await response.json();
     return data.models;
   }
 
-  async getAIMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+  // Aborting the signal cancels the retries and, through the closed connection, the server's model call
+  async getAIMove(request: AIMoveRequest, signal?: AbortSignal): Promise<AIMoveResponse> {
     return retryWithBackoff(async () => {
       const response = await fetch(`${API_BASE_URL}/ai/move`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(request),
+        signal,
       });
+      if (response.status === 402 || response.status === 429) {
+        const body = await response.json().catch(() => null);
+        if (body?.code) throw new LimitError(body.code, body.details || body.error, body.retryAfterMs);
+      }
       if (!response.ok) throw new Error(`Failed to get AI move: ${response.statusText}`);
       return response.json();
-    }, 3, 1000);
+    }, 3, 1000, signal);
+  }
+
+  async startMatch(white: MatchPlayer, black: MatchPlayer, options?: MatchOptions, fen?: string): Promise<MatchState> {
+    const response = await fetch(`${API_BASE_URL}/match`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ white, black, options, fen }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Failed to start match: ${body?.details || response.statusText}`);
+    }
+    return response.json();
+  }
+
+  async getMatch(matchId: string): Promise<MatchState> {
+    const response = await fetch(`${API_BASE_URL}/match/${matchId}`);
+    if (!response.ok) throw new Error(`Failed to get match: ${response.statusText}`);
+    return response.json();
+  }
+
+  // Open the match's Server-Sent Events stream; returns a function that closes it
+  subscribeToMatch(matchId: string, onEvent: (event: MatchEvent) => void, onConnectionError?: (reconnecting: boolean) => void): () => void {
+    const source = new EventSource(`${API_BASE_URL}/match/${matchId}/events`);
+    for (const type of MATCH_EVENT_TYPES) {
+      source.addEventListener(type, (e) => {
+        const event = { type, data: JSON.parse((e as MessageEvent).data) } as MatchEvent;
+        // The server ends the stream once the match is over; left open, EventSource would reconnect to it
+        if (event.type === 'game_over' || (event.type === 'snapshot' && event.data.status !== 'running')) source.close();
+        onEvent(event);
+      });
+    }
+    // Connection failures only; EventSource retries by itself unless the server refused the stream
+    source.onerror = () => onConnectionError?.(source.readyState === EventSource.CONNECTING);
+    return () => source.close();
+  }
+
+  async abortMatch(matchId: string): Promise<MatchState> {
+    const response = await fetch(`${API_BASE_URL}/match/${matchId}/abort`, { method: 'POST' });
+    if (!response.ok) throw new Error(`Failed to abort match: ${response.statusText}`);
+    return response.json();
+  }
+
+  async startTournament(players: MatchPlayer[], options?: TournamentOptions, name?: string): Promise<TournamentState> {
+    const response = await fetch(`${API_BASE_URL}/tournaments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ players, options, name }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Failed to start tournament: ${body?.details || response.statusText}`);
+    }
+    return response.json();
+  }
+
+  // Open the tournament's Server-Sent Events stream; returns a function that closes it
+  subscribeToTournament(tournamentId: string, onUpdate: (state: TournamentState) => void): () => void {
+    const source = new EventSource(`${API_BASE_URL}/tournaments/${tournamentId}/events`);
+    for (const type of TOURNAMENT_EVENT_TYPES) {
+      source.addEventListener(type, (e) => {
+        onUpdate(JSON.parse((e as MessageEvent).data));
+      });
+    }
+    return () => source.close();
+  }
+
+  async abortTournament(tournamentId: string): Promise<TournamentState> {
+    const response = await fetch(`${API_BASE_URL}/tournaments/${tournamentId}/abort`, { method: 'POST' });
+    if (!response.ok) throw new Error(`Failed to abort tournament: ${response.statusText}`);
+    return response.json();
+  }
+
+  async recordResult(result: { gameId: string; white: MatchPlayer; black: MatchPlayer; result: RatedResult; termination?: string }): Promise<{ recorded: boolean }> {
+    const response = await fetch(`${API_BASE_URL}/results`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(result),
+    });
+    if (!response.ok) throw new Error(`Failed to record result: ${response.statusText}`);
+    return response.json();
+  }
+
+  async importResults(pgn: string): Promise<{ imported: number; duplicates: number; skipped: number }> {
+    const response = await fetch(`${API_BASE_URL}/results/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pgn }),
+    });
+    if (!response.ok) throw new Error(`Failed to import results: ${response.statusText}`);
+    return response.json();
+  }
+
+  async getLeaderboard(sort: 'glicko' | 'elo' | 'games' = 'glicko'): Promise<PlayerRating[]> {
+    const response = await fetch(`${API_BASE_URL}/leaderboard?sort=${sort}`);
+    if (!response.ok) throw new Error(`Failed to get leaderboard: ${response.statusText}`);
+    const data = await response.json();
+    return data.players;
+  }
+
+  async getUsageSummary(): Promise<UsageSummary> {
+    const response = await fetch(`${API_BASE_URL}/games/usage`);
+    if (!response.ok) throw new Error(`Failed to get usage: ${response.statusText}`);
+    return response.json();
+  }
+
+  async getEncodingStats(): Promise<EncodingStats[]> {
+    const response = await fetch(`${API_BASE_URL}/games/encodings`);
+    if (!response.ok) throw new Error(`Failed to get encoding stats: ${response.statusText}`);
+    const data = await response.json();
+    return data.encodings;
+  }
+
+  async getGamePgn(gameId: string): Promise<string> {
+    const response = await fetch(`${API_BASE_URL}/games/${gameId}/pgn`);
+    if (!response.ok) throw new Error(`Failed to export PGN: ${response.statusText}`);
+    return response.text();
   }
 
   async analyzePosition(requests: AIMoveRequest[]): Promise<AIAnalysis> {
@@ -0,0 +1,23 @@
+import type { BoardEncoding } from '../services/api';
+
+// What the server uses when a player has no encoding
+export const DEFAULT_ENCODING: BoardEncoding = { board: 'pieces', moves: 'by-piece' };
+
+export const BOARD_FORMAT_LABELS: Record<BoardEncoding['board'], string> = {
+  pieces: 'Piece list',
+  ascii: 'ASCII diagram',
+  unicode: 'Unicode diagram',
+  fen: 'FEN only',
+};
+
+export const MOVE_FORMAT_LABELS: Record<BoardEncoding['moves'], string> = {
+  'by-piece': 'UCI, grouped by piece',
+  uci: 'UCI list',
+  san: 'SAN list',
+};
+
+// Same label as the server's PGN tags: "unicode+threats/san"
+export const encodingTag = (encoding: BoardEncoding) => {
+  const extras = [encoding.threats && 'threats', encoding.material && 'material'].filter(Boolean);
+  return `${[encoding.board, ...extras].join('+')}/${encoding.moves}`;
+};
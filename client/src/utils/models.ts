@@ -0,0 +1,27 @@
+import type { ModelInfo, ModelPricing } from '../services/api';
+import { formatTokens } from './usage';
+
+// Prompt/completion price per million tokens: "$3/$15", "free"
+export const formatPrice = (pricing: ModelPricing) => {
+  if (pricing.prompt === 0 && pricing.completion === 0) return 'free';
+  const perMillion = (usd: number) => {
+    const value = usd * 1e6;
+    return `$${value < 1 ? Number(value.toPrecision(2)) : Number(value.toFixed(2))}`;
+  };
+  return `${perMillion(pricing.prompt)}/${perMillion(pricing.completion)}`;
+};
+
+// Short labels for what is known about a model, in display order
+export const modelBadges = (model: ModelInfo) => {
+  const badges: { label: string; title: string }[] = [];
+  if (model.pricing) badges.push({ label: formatPrice(model.pricing), title: 'USD per million prompt/completion tokens' });
+  if (model.contextLength) badges.push({ label: `${formatTokens(model.contextLength)} ctx`, title: 'Context length in tokens' });
+  if (model.structuredOutputs) badges.push({ label: 'JSON', title: 'Supports structured (JSON schema) output' });
+  if (model.reasoning) badges.push({ label: 'reasoning', title: 'Produces reasoning tokens' });
+  if (model.tools) badges.push({ label: 'tools', title: 'Supports tool calling' });
+  return badges;
+};
+
+// Options cannot hold markup, so the dropdown shows the price inline
+export const modelOptionLabel = (model: ModelInfo) =>
+  model.pricing ? `${model.name} · ${formatPrice(model.pricing)}` : model.name;
@@ -0,0 +1,47 @@
+import { Chess, validateFen } from 'chess.js';
+
+export interface StartPosition {
+  fen: string;
+  // Half-moves in the imported PGN, undefined for a pasted FEN
+  plies?: number;
+}
+
+const FEN_PATTERN = /^[pnbrqkPNBRQK1-8]+(\/[pnbrqkPNBRQK1-8]+){7}\s+[wb]\b/;
+
+// Resolve pasted text (a FEN or a PGN) to the position a game starts from; throws with a readable message
+// Mirrors resolveStartPosition on the server, which validates the position again
+export function parseStartPosition(text: string, ply?: number): StartPosition {
+  const input = text.trim();
+
+  if (FEN_PATTERN.test(input)) {
+    const validation = validateFen(input);
+    if (!validation.ok) throw new Error(validation.error || 'Invalid FEN');
+    return { fen: checkPlayable(input) };
+  }
+
+  const imported = new Chess();
+  try {
+    imported.loadPgn(input);
+  } catch (err) {
+    throw new Error(`Invalid PGN: ${err instanceof Error ? err.message : 'could not parse'}`);
+  }
+
+  const moves = imported.history({ verbose: true });
+  const target = ply ?? moves.length;
+  if (!Number.isInteger(target) || target < 0 || target > moves.length) {
+    throw new Error(`Ply must be between 0 and ${moves.length}`);
+  }
+  const fen = target === 0 ? (moves[0]?.before ?? imported.fen()) : moves[target - 1].after;
+  return { fen: checkPlayable(fen), plies: moves.length };
+}
+
+function checkPlayable(fen: string): string {
+  let game: Chess;
+  try {
+    game = new Chess(fen);
+  } catch (err) {
+    throw new Error(`Invalid position: ${err instanceof Error ? err.message : 'could not load'}`);
+  }
+  if (game.isGameOver()) throw new Error('The start position is already game over');
+  return game.fen();
+}
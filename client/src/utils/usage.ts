@@ -0,0 +1,29 @@
+import type { TokenUsage } from '../services/api';
+
+export const addUsage = (a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined => {
+  if (!a || !b) return a || b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    costUsd: a.costUsd === undefined && b.costUsd === undefined ? undefined : (a.costUsd ?? 0) + (b.costUsd ?? 0),
+  };
+};
+
+// 950, 12.3k, 1.2M
+export const formatTokens = (tokens: number) => {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1000000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1000000).toFixed(1)}M`;
+};
+
+// Sub-cent costs keep enough digits to compare cheap models
+export const formatCost = (usd: number | undefined) => {
+  if (usd === undefined) return 'n/a';
+  if (usd === 0) return '$0';
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+};
+
+export const describeUsage = (usage: TokenUsage) =>
+  `${formatTokens(usage.promptTokens)} in / ${formatTokens(usage.completionTokens)} out` +
+  (usage.reasoningTokens > 0 ? ` (${formatTokens(usage.reasoningTokens)} reasoning)` : '');
@@ -4,6 +4,10 @@ import cors from 'cors';
 import path from 'path';
 import { gameRoutes } from './routes/game';
 import { aiRoutes, aiService } from './routes/ai';
+import { matchRoutes } from './routes/match';
+import { gamesRoutes } from './routes/games';
+import { tournamentRoutes } from './routes/tournaments';
+import { ratingRoutes } from './routes/ratings';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -18,8 +22,12 @@ app.use(express.static(path.join(__dirname, '../public')));
 // API Routes
 app.use('/api/game', gameRoutes);
 app.use('/api/ai', aiRoutes);
+app.use('/api/match', matchRoutes);
+app.use('/api/games', gamesRoutes);
+app.use('/api/tournaments', tournamentRoutes);
+app.use('/api', ratingRoutes);
 
-console.log('📋 Routes mounted: /api/game, /api/ai');
+console.log('📋 Routes mounted: /api/game, /api/ai, /api/match, /api/games, /api/tournaments, /api/results, /api/leaderboard');
 
 // Health check
 app.get('/health', (req, res) => {
@@ -1,20 +1,51 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
+import * as path from 'path';
 import { AIService, AIMoveRequest } from '../services/aiService';
+import { LimitExceededError } from '../services/spendingLimits';
+import { ModelFilter, parsePatterns } from '../services/modelCatalog';
+import { PROMPT_VARIABLES } from '../services/promptTemplates';
+import { ConversationOptions, resolveConversation } from '../services/conversations';
+import { ToolOptions, resolveToolOptions } from '../services/chessTools';
+import { BOARD_FORMATS, BoardEncoding, MOVE_FORMATS, resolveEncoding } from '../services/boardEncodings';
+import { dataDir } from './games';
 
 const router = Router();
-export const aiService = new AIService();
+export const aiService = new AIService(path.join(dataDir, 'spending'), path.join(dataDir, 'conversations'));
 
 console.log('🔧 Registering AI routes...');
 
-// Search models (OpenRouter only)
-router.get('/models/search', (req, res) => {
-  // console.log('🔍 Search endpoint hit! Path:', req.path, 'Query:', req.query);
+const SEARCH_LIMIT = 50;
+
+// Catalog filters shared by /providers and /models/search:
+// include/exclude (comma-separated id patterns), structured, reasoning, tools (true), maxPrice (USD per 1M prompt tokens), minContext, limit
+function parseModelFilter(query: Request['query']): ModelFilter {
+  const text = (key: string) => (typeof query[key] === 'string' ? query[key] as string : undefined);
+  const number = (key: string) => {
+    const value = parseFloat(text(key) ?? '');
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+  const limit = number('limit');
+  return {
+    query: text('q'),
+    include: parsePatterns(text('include')),
+    exclude: parsePatterns(text('exclude')),
+    structuredOutputs: text('structured') === 'true' || undefined,
+    reasoning: text('reasoning') === 'true' || undefined,
+    tools: text('tools') === 'true' || undefined,
+    maxPromptPrice: number('maxPrice'),
+    minContextLength: number('minContext'),
+    limit: limit !== undefined ? Math.floor(limit) : undefined,
+  };
+}
+
+// Search models (defaults to OpenRouter)
+router.get('/models/search', async (req, res) => {
   try {
-    const { q } = req.query;
-    const query = typeof q === 'string' ? q : '';
+    const { provider } = req.query;
+    const providerId = typeof provider === 'string' && provider ? provider : 'openrouter';
+    const filter = parseModelFilter(req.query);
     
-    const models = aiService.searchModels('openrouter', query);
-    // console.log(`✅ Found ${models.length} models`);
+    const models = await aiService.searchModels(providerId, { ...filter, limit: filter.limit ?? SEARCH_LIMIT });
     res.json({ models });
   } catch (error) {
     console.error('❌ Search error:', error);
@@ -26,11 +57,14 @@ router.get('/models/search', (req, res) => {
 // Get available AI providers with their models
 router.get('/providers', (req, res) => {
   try {
+    const filter = parseModelFilter(req.query);
     const availableProviders = aiService.getAvailableProviders();
     const providers = availableProviders.map(provider => ({
       id: provider,
       name: provider,
-      models: aiService.getModels(provider)
+      models: aiService.getModels(provider, filter),
+      // Whether players of this provider can use tool mode
+      tools: aiService.supportsTools(provider),
     }));
     res.json({ providers });
   } catch (error) {
@@ -39,10 +73,49 @@ router.get('/providers', (req, res) => {
   }
 });
 
+// Prompt templates players can be asked with, the variables templates may use and the board encodings
+router.get('/prompts', (req, res) => {
+  res.json({
+    templates: aiService.getPromptTemplates(),
+    variables: PROMPT_VARIABLES,
+    encodings: { board: BOARD_FORMATS, moves: MOVE_FORMATS },
+  });
+});
+
+// Configured budgets and rate limits with the spend counted against them
+router.get('/spending', async (req, res) => {
+  try {
+    res.json(await aiService.getSpending());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to get spending', details: errorMessage });
+  }
+});
+
+// What conversation-mode players of a game have been told and answered so far
+router.get('/conversations/:gameId', async (req, res) => {
+  try {
+    res.json(await aiService.getConversations(req.params.gameId));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to get conversations', details: errorMessage });
+  }
+});
+
+// Aborted when the client goes away before the response is sent (game reset, tab closed)
+function clientAbortSignal(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+}
+
 // Get AI move suggestion
 router.post('/move', async (req, res) => {
+  const signal = clientAbortSignal(res);
   try {
-    const { provider, model, fen, moveHistory, playerColor, legalMoves, piecesMoves } = req.body;
+    const { provider, model, temperature, fen, startFen, moveHistory, moveHistorySan, playerColor, legalMoves, piecesMoves, maxCorrections, prompt, encoding, conversation, gameId, tools } = req.body;
 
     if (!provider || !fen || !playerColor) {
       return res.status(400).json({ 
@@ -50,16 +123,69 @@ router.post('/move', async (req, res) => {
       });
     }
 
+    if (prompt !== undefined && (typeof prompt !== 'string' || !aiService.hasPromptTemplate(prompt))) {
+      return res.status(400).json({ error: `Unknown prompt template: ${prompt}` });
+    }
+
+    let boardEncoding: BoardEncoding | undefined;
+    try {
+      boardEncoding = resolveEncoding(encoding);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return res.status(400).json({ error: 'Invalid encoding', details: errorMessage });
+    }
+
+    let conversationOptions: ConversationOptions | undefined;
+    try {
+      conversationOptions = resolveConversation(conversation);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return res.status(400).json({ error: 'Invalid conversation options', details: errorMessage });
+    }
+    if (conversationOptions && (typeof gameId !== 'string' || !gameId)) {
+      return res.status(400).json({ error: 'Conversation mode needs a gameId' });
+    }
+
+    let toolOptions: ToolOptions | undefined;
+    try {
+      toolOptions = resolveToolOptions(tools);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return res.status(400).json({ error: 'Invalid tool options', details: errorMessage });
+    }
+    if (toolOptions && !aiService.supportsTools(provider)) {
+      return res.status(400).json({ error: `Provider ${provider} does not support tool mode` });
+    }
+    try {
+      aiService.assertPriced(provider, model);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return res.status(400).json({ error: 'Unpriced model under a budget', details: errorMessage });
+    }
+
     const request: AIMoveRequest = {
       fen,
       moveHistory: moveHistory || [],
+      startFen: typeof startFen === 'string' ? startFen : undefined,
+      moveHistorySan: Array.isArray(moveHistorySan) ? moveHistorySan : undefined,
       playerColor,
       model,
+      temperature: typeof temperature === 'number' ? temperature : undefined,
       legalMoves,
       piecesMoves,
+      signal,
+      prompt,
+      encoding: boardEncoding,
+      conversation: conversationOptions,
+      gameId: conversationOptions ? gameId : undefined,
+      tools: toolOptions,
     };
 
-    const response = await aiService.getMove(provider, request);
+    const response = await aiService.getMove(
+      provider,
+      request,
+      typeof maxCorrections === 'number' ? maxCorrections : undefined
+    );
     
     res.json({
       success: true,
@@ -68,8 +194,28 @@ router.post('/move', async (req, res) => {
       move: response.move,
       reasoning: response.reasoning,
       confidence: response.confidence,
+      corrections: response.corrections,
+      legal: response.legal,
+      usage: response.usage,
+      prompt: response.prompt,
+      notation: response.notation,
+      toolCalls: response.toolCalls,
     });
   } catch (error) {
+    if (signal.aborted) {
+      console.log('🛑 Move request cancelled by the client');
+      return;
+    }
+    // Distinct from provider failures so clients can pause or stop instead of retrying
+    if (error instanceof LimitExceededError) {
+      console.log(`💸 ${error.message}`);
+      return res.status(error.code === 'RATE_LIMITED' ? 429 : 402).json({
+        error: error.code === 'RATE_LIMITED' ? 'Rate limit reached' : 'Budget exceeded',
+        code: error.code,
+        details: error.message,
+        retryAfterMs: error.retryAfterMs,
+      });
+    }
     console.error('AI move error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     res.status(500).json({ 
@@ -81,6 +227,7 @@ router.post('/move', async (req, res) => {
 
 // Analyze position with multiple AI providers
 router.post('/analyze', async (req, res) => {
+  const signal = clientAbortSignal(res);
   try {
     const { providers, fen, moveHistory, playerColor } = req.body;
 
@@ -94,6 +241,7 @@ router.post('/analyze', async (req, res) => {
       fen,
       moveHistory: moveHistory || [],
       playerColor,
+      signal,
     };
 
     const results = await Promise.allSettled(
@@ -122,6 +270,7 @@ router.post('/analyze', async (req, res) => {
       successful: analysis.length,
     });
   } catch (error) {
+    if (signal.aborted) return;
     console.error('AI analysis error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     res.status(500).json({ 
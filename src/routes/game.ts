@@ -1,21 +1,78 @@
 import { Router } from 'express';
 import { Chess } from 'chess.js';
+import { gameStore } from './games';
+import { getGameOutcome, isMatchPlayer } from '../services/matchRunner';
+import { resolveStartPosition } from '../services/pgn';
+import { GameResult, StoredGame, StoredMove, StoredPlayer } from '../services/gameStore';
 
 const router = Router();
 
-// Store active games in memory (in production, use a database)
+// Live chess.js instances; the game store is the source of truth and survives restarts
 const games = new Map<string, Chess>();
 
-// Start a new game
-router.post('/start', (req, res) => {
-  const { gameId } = req.body;
+// Get a game from the cache, or rebuild it from its stored moves
+async function loadGame(gameId: string): Promise<Chess | undefined> {
+  const cached = games.get(gameId);
+  if (cached) return cached;
   
-  if (!gameId) {
-    return res.status(400).json({ error: 'Game ID is required' });
+  const stored = await gameStore.get(gameId);
+  if (!stored) return undefined;
+  
+  const game = new Chess(stored.startFen);
+  for (const move of stored.moves) {
+    game.move({ from: move.uci.substring(0, 2), to: move.uci.substring(2, 4), promotion: move.uci[4] });
   }
+  games.set(gameId, game);
+  return game;
+}
+
+const RESULTS: GameResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+const HUMAN: StoredPlayer = { provider: 'human' };
+
+// Only games started here take moves from clients; server matches are driven by the MatchRunner
+async function getManualGame(gameId: string): Promise<{ stored?: StoredGame; error?: string }> {
+  const stored = await gameStore.get(gameId);
+  if (!stored) return {};
+  if (stored.source !== 'manual') return { stored, error: `Game ${gameId} is a ${stored.source} game and cannot be played here` };
+  if (stored.status !== 'running') return { stored, error: `Game ${gameId} is already over` };
+  return { stored };
+}
+
+// Start a new game, optionally from a FEN or a ply of an imported PGN; the id is generated when
+// none is given, and players (AI settings of a client-run game) default to humans
+router.post('/start', async (req, res) => {
+  const { gameId: requestedId, fen, pgn, ply, white, black } = req.body;
   
-  const game = new Chess();
+  if (requestedId !== undefined && (typeof requestedId !== 'string' || !requestedId)) {
+    return res.status(400).json({ error: 'gameId must be a non-empty string' });
+  }
+  if ((white !== undefined && !isMatchPlayer(white)) || (black !== undefined && !isMatchPlayer(black))) {
+    return res.status(400).json({ error: 'white and black must be players ({ provider, model })' });
+  }
+  const gameId: string = requestedId || `game_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  if (games.has(gameId) || await gameStore.get(gameId)) {
+    return res.status(409).json({ error: `Game ${gameId} already exists` });
+  }
+  
+  let game: Chess;
+  try {
+    game = new Chess(resolveStartPosition({ fen, pgn, ply }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(400).json({ error: 'Invalid start position', details: errorMessage });
+  }
   games.set(gameId, game);
+  await gameStore.save({
+    id: gameId,
+    source: 'manual',
+    white: white || HUMAN,
+    black: black || HUMAN,
+    startFen: game.fen(),
+    moves: [],
+    status: 'running',
+    result: '*',
+    startedAt: new Date().toISOString(),
+  });
   
   res.json({
     gameId,
@@ -29,9 +86,9 @@ router.post('/start', (req, res) => {
 });
 
 // Get current game state
-router.get('/state/:gameId', (req, res) => {
+router.get('/state/:gameId', async (req, res) => {
   const { gameId } = req.params;
-  const game = games.get(gameId);
+  const game = await loadGame(gameId);
   
   if (!game) {
     return res.status(404).json({ error: 'Game not found' });
@@ -50,14 +107,17 @@ router.get('/state/:gameId', (req, res) => {
   });
 });
 
-// Make a move
-router.post('/move/:gameId', (req, res) => {
+// Make a move; a client-run AI game also sends the answer's reasoning, latency and corrections
+router.post('/move/:gameId', async (req, res) => {
   const { gameId } = req.params;
-  const { from, to, promotion } = req.body;
-  
-  const game = games.get(gameId);
+  const { from, to, promotion, reasoning, latencyMs, corrections } = req.body;
   
-  if (!game) {
+  const { stored, error } = await getManualGame(gameId);
+  if (error) {
+    return res.status(409).json({ error });
+  }
+  const game = stored && await loadGame(gameId);
+  if (!stored || !game) {
     return res.status(404).json({ error: 'Game not found' });
   }
   
@@ -68,6 +128,27 @@ router.post('/move/:gameId', (req, res) => {
       return res.status(400).json({ error: 'Invalid move' });
     }
     
+    const record: StoredMove = {
+      ply: stored.moves.length + 1,
+      color: move.color,
+      uci: move.lan,
+      san: move.san,
+      fen: game.fen(),
+      timestamp: new Date().toISOString(),
+    };
+    if (typeof reasoning === 'string' && reasoning) record.reasoning = reasoning;
+    if (typeof latencyMs === 'number' && latencyMs >= 0) record.latencyMs = latencyMs;
+    if (typeof corrections === 'number' && corrections > 0) record.corrections = corrections;
+    stored.moves.push(record);
+    const outcome = getGameOutcome(game);
+    if (outcome) {
+      stored.status = 'finished';
+      stored.result = outcome.result;
+      stored.termination = outcome.termination;
+      stored.finishedAt = new Date().toISOString();
+    }
+    await gameStore.save(stored);
+    
     res.json({
       success: true,
       move: {
@@ -92,10 +173,35 @@ router.post('/move/:gameId', (req, res) => {
   }
 });
 
+// End a running game off the board: resignation, forfeit, or '*' when it is abandoned
+router.post('/end/:gameId', async (req, res) => {
+  const { gameId } = req.params;
+  const { result, termination } = req.body;
+  
+  if (!RESULTS.includes(result)) {
+    return res.status(400).json({ error: `result must be one of ${RESULTS.join(', ')}` });
+  }
+  const { stored, error } = await getManualGame(gameId);
+  if (error) {
+    return res.status(409).json({ error });
+  }
+  if (!stored) {
+    return res.status(404).json({ error: 'Game not found' });
+  }
+  
+  stored.status = result === '*' ? 'aborted' : 'finished';
+  stored.result = result;
+  stored.termination = typeof termination === 'string' && termination ? termination : undefined;
+  stored.finishedAt = new Date().toISOString();
+  await gameStore.save(stored);
+  games.delete(gameId);
+  res.json({ gameId, status: stored.status, result: stored.result, termination: stored.termination });
+});
+
 // Get legal moves for a position
-router.get('/moves/:gameId', (req, res) => {
+router.get('/moves/:gameId', async (req, res) => {
   const { gameId } = req.params;
-  const game = games.get(gameId);
+  const game = await loadGame(gameId);
   
   if (!game) {
     return res.status(404).json({ error: 'Game not found' });
@@ -106,10 +212,10 @@ router.get('/moves/:gameId', (req, res) => {
 });
 
 // Get legal moves for a specific square
-router.get('/moves/:gameId/:square', (req, res) => {
+router.get('/moves/:gameId/:square', async (req, res) => {
   const { gameId } = req.params;
   const square = (req.params as any).square;
-  const game = games.get(gameId);
+  const game = await loadGame(gameId);
   
   if (!game) {
     return res.status(404).json({ error: 'Game not found' });
@@ -0,0 +1,146 @@
+import { Router } from 'express';
+import * as path from 'path';
+import { JsonFileGameStore, GameQuery, GameResult, GameSummary, MAX_PAGE_SIZE, StoredGame } from '../services/gameStore';
+import { summarizeEncodings } from '../services/boardEncodings';
+import { gameToPgn } from '../services/pgn';
+import { summarizeUsage } from '../services/usage';
+
+const router = Router();
+// Root of everything the server writes to disk
+export const dataDir = process.env.DATA_DIR || path.join(__dirname, '../../data');
+export const gameStore = new JsonFileGameStore(path.join(dataDir, 'games'));
+
+const RESULTS: GameResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+const STATUSES = ['running', 'finished', 'aborted'];
+
+const queryString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+const queryNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+// List stored games, newest first
+// Filters: model, provider, result, status, source, from/to (ISO dates); paging: offset, limit
+router.get('/', async (req, res) => {
+  try {
+    const result = queryString(req.query.result);
+    if (result && !RESULTS.includes(result as GameResult)) {
+      return res.status(400).json({ error: `Invalid result filter, expected one of ${RESULTS.join(', ')}` });
+    }
+    const status = queryString(req.query.status);
+    if (status && !STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Invalid status filter, expected one of ${STATUSES.join(', ')}` });
+    }
+
+    const query: GameQuery = {
+      model: queryString(req.query.model),
+      provider: queryString(req.query.provider),
+      result: result as GameResult | undefined,
+      status: status as GameQuery['status'],
+      source: queryString(req.query.source),
+      from: queryString(req.query.from),
+      to: queryString(req.query.to),
+      offset: queryNumber(req.query.offset),
+      limit: queryNumber(req.query.limit),
+    };
+
+    const { games, total } = await gameStore.list(query);
+    res.json({ games, total, offset: query.offset ?? 0, limit: games.length });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to list games', details: errorMessage });
+  }
+});
+
+// Every game matching the query, paging through the store
+async function listAll(query: GameQuery): Promise<GameSummary[]> {
+  const games: GameSummary[] = [];
+  for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+    const page = await gameStore.list({ ...query, offset, limit: MAX_PAGE_SIZE });
+    games.push(...page.games);
+    if (games.length >= page.total || page.games.length === 0) break;
+  }
+  return games;
+}
+
+// Token usage and estimated cost per model and per matchup over the stored games
+// Filters: model, provider, source, from/to (ISO dates)
+router.get('/usage', async (req, res) => {
+  try {
+    const query: GameQuery = {
+      model: queryString(req.query.model),
+      provider: queryString(req.query.provider),
+      source: queryString(req.query.source),
+      from: queryString(req.query.from),
+      to: queryString(req.query.to),
+    };
+
+    res.json(summarizeUsage(await listAll(query)));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to summarize usage', details: errorMessage });
+  }
+});
+
+// Corrections (illegal or unreadable answers) and forfeits per model and board encoding
+// Filters: model, provider, source, from/to (ISO dates)
+router.get('/encodings', async (req, res) => {
+  try {
+    const summaries = await listAll({
+      model: queryString(req.query.model),
+      provider: queryString(req.query.provider),
+      source: queryString(req.query.source),
+      from: queryString(req.query.from),
+      to: queryString(req.query.to),
+    });
+
+    const games: StoredGame[] = [];
+    for (const summary of summaries) {
+      const game = await gameStore.get(summary.id);
+      if (game) games.push(game);
+    }
+
+    res.json({ encodings: summarizeEncodings(games) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to summarize encodings', details: errorMessage });
+  }
+});
+
+// Get a stored game with its full move list
+router.get('/:id', async (req, res) => {
+  try {
+    const game = await gameStore.get(req.params.id);
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    res.json(game);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to get game', details: errorMessage });
+  }
+});
+
+// Download a stored game as PGN
+router.get('/:id/pgn', async (req, res) => {
+  try {
+    const game = await gameStore.get(req.params.id);
+
+    if (!game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/x-chess-pgn; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${game.id.replace(/[^\w.-]/g, '_')}.pgn"`);
+    res.send(gameToPgn(game));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to export game', details: errorMessage });
+  }
+});
+
+export { router as gamesRoutes };
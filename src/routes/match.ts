@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import { MatchRunner, MatchEvent, isMatchPlayer } from '../services/matchRunner';
+import { resolveStartPosition } from '../services/pgn';
+import { aiService } from './ai';
+import { gameStore } from './games';
+import { ratingService } from './ratings';
+
+const router = Router();
+export const matchRunner = new MatchRunner(aiService, gameStore, ratingService);
+
+const SSE_HEARTBEAT_MS = 15000;
+
+// Start a server-side AI vs AI match, optionally from a FEN or a ply of an imported PGN
+router.post('/', (req, res) => {
+  const { white, black, options, fen, pgn, ply } = req.body;
+
+  if (!isMatchPlayer(white) || !isMatchPlayer(black)) {
+    return res.status(400).json({
+      error: 'Missing required fields: white and black ({ provider, model })'
+    });
+  }
+
+  let startFen: string;
+  try {
+    startFen = resolveStartPosition({ fen, pgn, ply });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(400).json({ error: 'Invalid start position', details: errorMessage });
+  }
+
+  try {
+    const match = matchRunner.start(white, black, options || {}, { startFen });
+    res.status(201).json(match);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(400).json({ error: 'Failed to start match', details: errorMessage });
+  }
+});
+
+// List matches known to this server
+router.get('/', (req, res) => {
+  res.json({ matches: matchRunner.list() });
+});
+
+// Get current match state (moves, result, who is thinking)
+router.get('/:id', (req, res) => {
+  const match = matchRunner.get(req.params.id);
+
+  if (!match) {
+    return res.status(404).json({ error: 'Match not found' });
+  }
+
+  res.json(match);
+});
+
+// Stream live match events (Server-Sent Events); late joiners get a snapshot first
+router.get('/:id/events', (req, res) => {
+  const match = matchRunner.get(req.params.id);
+
+  if (!match) {
+    return res.status(404).json({ error: 'Match not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const send = (event: MatchEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  };
+
+  send({ type: 'snapshot', data: { ...match } });
+  if (match.status !== 'running') {
+    return res.end();
+  }
+
+  const unsubscribe = matchRunner.subscribe(req.params.id, event => {
+    send(event);
+    if (event.type === 'game_over') {
+      res.end();
+    }
+  });
+  // Comment lines keep proxies from closing an idle stream while a model thinks
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  });
+});
+
+// Abort a running match
+router.post('/:id/abort', (req, res) => {
+  const match = matchRunner.abort(req.params.id);
+
+  if (!match) {
+    return res.status(404).json({ error: 'Match not found' });
+  }
+
+  res.json(match);
+});
+
+export { router as matchRoutes };
@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import * as path from 'path';
+import { RatingService, DecisiveResult, LeaderboardSort } from '../services/ratingService';
+import { isMatchPlayer } from '../services/matchRunner';
+import { readPgnHeaders } from '../services/pgn';
+import { dataDir } from './games';
+
+const router = Router();
+export const ratingService = new RatingService(path.join(dataDir, 'ratings'));
+
+const RESULTS: DecisiveResult[] = ['1-0', '0-1', '1/2-1/2'];
+const SORTS: LeaderboardSort[] = ['elo', 'glicko', 'games'];
+
+// PGN dates look like 2024.05.17, with ?? for unknown parts
+function pgnDateToIso(date: string | undefined): string | undefined {
+  const match = date?.match(/^(\d{4})\.(\d{2})\.(\d{2})$/);
+  return match ? new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00Z`).toISOString() : undefined;
+}
+
+// Record a finished game; games with a gameId are rated once no matter how often they are posted
+router.post('/results', async (req, res) => {
+  const { gameId, white, black, result, termination, source } = req.body;
+
+  if (!isMatchPlayer(white) || !isMatchPlayer(black) || !RESULTS.includes(result)) {
+    return res.status(400).json({
+      error: `Missing required fields: white, black ({ provider, model }) and result (${RESULTS.join(', ')})`
+    });
+  }
+
+  try {
+    const recorded = await ratingService.record({
+      gameId: typeof gameId === 'string' && gameId ? gameId : undefined,
+      white: { provider: white.provider, model: white.model, prompt: white.prompt, ...(white.tools ? { tools: {} } : {}) },
+      black: { provider: black.provider, model: black.model, prompt: black.prompt, ...(black.tools ? { tools: {} } : {}) },
+      result,
+      termination: typeof termination === 'string' ? termination : undefined,
+      source: typeof source === 'string' && source ? source : 'client',
+      playedAt: new Date().toISOString(),
+    });
+    res.status(recorded ? 201 : 200).json({ recorded });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to record result', details: errorMessage });
+  }
+});
+
+// Backfill results from PGN text (one or more games); players come from White/Black and the
+// WhiteProvider/BlackProvider and WhitePrompt/BlackPrompt tags written by the PGN export
+router.post('/results/import', async (req, res) => {
+  const { pgn } = req.body;
+
+  if (typeof pgn !== 'string' || !pgn.trim()) {
+    return res.status(400).json({ error: 'Missing required field: pgn' });
+  }
+
+  try {
+    let imported = 0;
+    let duplicates = 0;
+    let skipped = 0;
+
+    for (const { headers, digest } of readPgnHeaders(pgn)) {
+      const result = headers.Result as DecisiveResult;
+      if (!RESULTS.includes(result) || !headers.White || !headers.Black) {
+        skipped += 1;
+        continue;
+      }
+
+      const recorded = await ratingService.record({
+        gameId: headers.GameId || `pgn_${digest}`,
+        white: { provider: headers.WhiteProvider || 'pgn', model: headers.White, prompt: headers.WhitePrompt, ...(headers.WhiteTools ? { tools: {} } : {}) },
+        black: { provider: headers.BlackProvider || 'pgn', model: headers.Black, prompt: headers.BlackPrompt, ...(headers.BlackTools ? { tools: {} } : {}) },
+        result,
+        termination: headers.Termination,
+        source: 'pgn-import',
+        playedAt: pgnDateToIso(headers.Date) || new Date().toISOString(),
+      });
+      if (recorded) imported += 1;
+      else duplicates += 1;
+    }
+
+    res.json({ imported, duplicates, skipped });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to import results', details: errorMessage });
+  }
+});
+
+// Recorded result history, oldest first
+router.get('/results', async (req, res) => {
+  try {
+    const results = await ratingService.history();
+    res.json({ results, total: results.length });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to get results', details: errorMessage });
+  }
+});
+
+// Rebuild all ratings from the recorded result history
+router.post('/results/recompute', async (req, res) => {
+  try {
+    const players = await ratingService.recompute();
+    res.json({ players });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to recompute ratings', details: errorMessage });
+  }
+});
+
+// Ratings per provider/model; sort: glicko (default), elo or games; minGames hides barely rated models
+router.get('/leaderboard', async (req, res) => {
+  try {
+    const sort = typeof req.query.sort === 'string' ? req.query.sort as LeaderboardSort : 'glicko';
+    if (!SORTS.includes(sort)) {
+      return res.status(400).json({ error: `Invalid sort, expected one of ${SORTS.join(', ')}` });
+    }
+    const minGames = typeof req.query.minGames === 'string' ? parseInt(req.query.minGames, 10) || 0 : 0;
+
+    const players = await ratingService.leaderboard(sort, minGames);
+    res.json({ players, sort });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to get leaderboard', details: errorMessage });
+  }
+});
+
+export { router as ratingRoutes };
@@ -0,0 +1,95 @@
+import { Router } from 'express';
+import { isMatchPlayer } from '../services/matchRunner';
+import { TournamentRunner, TournamentEvent } from '../services/tournamentRunner';
+import { aiService } from './ai';
+import { matchRunner } from './match';
+
+const router = Router();
+export const tournamentRunner = new TournamentRunner(matchRunner, aiService);
+
+const SSE_HEARTBEAT_MS = 15000;
+
+// Start a round-robin, Swiss or gauntlet tournament (options.format); in a gauntlet the first player is the challenger
+router.post('/', (req, res) => {
+  const { players, options, name } = req.body;
+
+  if (!Array.isArray(players) || !players.every(isMatchPlayer)) {
+    return res.status(400).json({
+      error: 'Missing required field: players ([{ provider, model }, ...])'
+    });
+  }
+
+  try {
+    const tournament = tournamentRunner.start(players, options || {}, typeof name === 'string' ? name : undefined);
+    res.status(201).json(tournament);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(400).json({ error: 'Failed to start tournament', details: errorMessage });
+  }
+});
+
+// List tournaments known to this server
+router.get('/', (req, res) => {
+  res.json({ tournaments: tournamentRunner.list() });
+});
+
+// Get tournament state (pairings, results, standings)
+router.get('/:id', (req, res) => {
+  const tournament = tournamentRunner.get(req.params.id);
+
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  res.json(tournament);
+});
+
+// Stream live standings (Server-Sent Events); every event carries the full tournament state
+router.get('/:id/events', (req, res) => {
+  const tournament = tournamentRunner.get(req.params.id);
+
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const send = (event: TournamentEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  };
+
+  send({ type: 'snapshot', data: tournament });
+  if (tournament.status !== 'running') {
+    return res.end();
+  }
+
+  const unsubscribe = tournamentRunner.subscribe(req.params.id, event => {
+    send(event);
+    if (event.type === 'tournament_over') {
+      res.end();
+    }
+  });
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  });
+});
+
+// Abort a running tournament and its games in progress
+router.post('/:id/abort', (req, res) => {
+  const tournament = tournamentRunner.abort(req.params.id);
+
+  if (!tournament) {
+    return res.status(404).json({ error: 'Tournament not found' });
+  }
+
+  res.json(tournament);
+});
+
+export { router as tournamentRoutes };
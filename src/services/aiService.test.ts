@@ -0,0 +1,70 @@
+import { after, before, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AIMoveRequest, AIService } from './aiService';
+import { LimitExceededError } from './spendingLimits';
+
+// Stand-in for the Anthropic Messages API: every request costs 1000 input and 100 output tokens
+// and answers 1. e4 through the submit_move tool
+let requests = 0;
+const server = http.createServer((req, res) => {
+  req.resume();
+  req.on('end', () => {
+    requests += 1;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({
+      id: `msg_${requests}`,
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-test',
+      content: [{ type: 'tool_use', id: `toolu_${requests}`, name: 'submit_move', input: { from: 'e2', to: 'e4', reasoning: 'Center' } }],
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      usage: { input_tokens: 1000, output_tokens: 100 },
+    }));
+  });
+});
+
+let service: AIService;
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  // Provider setup is logged; under the test runner those writes can interleave with its own messages on stdout
+  mock.method(console, 'log', () => undefined);
+  mock.method(console, 'error', () => undefined);
+  process.env.ANTHROPIC_API_KEY = 'test-key';
+  process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // $3 / $15 per million tokens: $0.0045 per answer, so a $0.005 budget allows two answers
+  process.env.SPENDING_LIMITS = JSON.stringify({ totalUsd: 0.005 });
+  process.env.MODEL_PRICING = JSON.stringify({ 'anthropic/claude-test': { prompt: 3, completion: 15 } });
+  service = new AIService();
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const moveRequest = (model: string): AIMoveRequest => ({ fen: START_FEN, moveHistory: [], playerColor: 'w', model });
+
+test('a budget stops an Anthropic player priced through MODEL_PRICING', async () => {
+  const first = await service.getMove('anthropic', moveRequest('claude-test'));
+  assert.equal(first.move, 'e2e4');
+  assert.ok(Math.abs((first.usage?.costUsd ?? 0) - 0.0045) < 1e-9);
+
+  await service.getMove('anthropic', moveRequest('claude-test'));
+  await assert.rejects(
+    service.getMove('anthropic', moveRequest('claude-test')),
+    (error: unknown) => error instanceof LimitExceededError && error.code === 'BUDGET_EXCEEDED'
+  );
+  assert.equal(requests, 2);
+  assert.ok(Math.abs((await service.getSpending()).spent.totalUsd - 0.009) < 1e-9);
+});
+
+test('a metered model without a price is refused while a budget applies', async () => {
+  const served = requests;
+  assert.throws(() => service.assertPriced('anthropic', 'claude-unpriced'), /anthropic\/claude-unpriced has no known price/);
+  await assert.rejects(service.getMove('anthropic', moveRequest('claude-unpriced')), /no known price/);
+  assert.equal(requests, served);
+  // Local engines are never metered
+  assert.doesNotThrow(() => service.assertPriced('engine', 'engine/depth-1'));
+});
@@ -1,26 +1,76 @@
 import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { GoogleGenAI } from '@google/genai';
+import { Chess } from 'chess.js';
 import * as fs from 'fs';
 import * as path from 'path';
+import { EngineProvider } from './engineProvider';
+import { UciEngineProvider, loadUciEngineConfigs } from './uciEngineProvider';
+import { MockProvider } from './mockProvider';
+import { ModelPricing, TokenUsage, addUsage, estimateCost, loadModelPricing } from './usage';
+import { LimitExceededError, SpendingLimits, SpendingStatus, loadSpendingLimits } from './spendingLimits';
+import { PromptLibrary, PromptTemplate, RenderedPrompt } from './promptTemplates';
+import { BoardEncoding } from './boardEncodings';
+import { MoveNotation, isSquare, parseMoveFields, parseMoveText } from './moveParser';
+import { CHESS_TOOLS, SUBMIT_TOOL, ToolCallLimitError, ToolCallRecord, ToolOptions, ToolSession, parseToolArguments, toolInstructions } from './chessTools';
+import { ConversationHistory, ConversationOptions, ConversationStore, GameConversations, conversationHistory } from './conversations';
+import { DEFAULT_INCLUDE, ModelFilter, ModelInfo, filterModels, parsePatterns } from './modelCatalog';
 
-// Retry utility function
+const DEFAULT_TEMPERATURE = 0.7;
+
+// JSON schema for a move answer, shared by structured-output and tool-use providers
+const MOVE_SCHEMA = {
+  type: 'object' as const,
+  required: ['from', 'to', 'reasoning'],
+  properties: {
+    from: { type: 'string', description: 'Starting square (e.g., e2)' },
+    to: { type: 'string', description: 'Destination square (e.g., e4)' },
+    promotion: { type: 'string', description: 'Promotion piece (q/r/b/n), only for pawn promotions' },
+    reasoning: { type: 'string', description: 'Brief explanation' },
+  },
+  additionalProperties: true,
+};
+
+// Wait, cut short with an error when the signal aborts
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Move request aborted'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Move request aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Retry utility function; an aborted signal stops further attempts
 async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
-  delayMs: number = 1000
+  delayMs: number = 1000,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: Error | undefined;
   
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    if (signal?.aborted) throw new Error('Move request aborted');
     try {
       return await fn();
     } catch (error) {
+      // A spending or rate limit will not lift within the backoff, and a tool loop already had its rounds
+      if (error instanceof LimitExceededError || error instanceof ToolCallLimitError) throw error;
       lastError = error instanceof Error ? error : new Error('Unknown error');
+      if (signal?.aborted) throw new Error('Move request aborted');
       console.log(`⚠️ Attempt ${attempt}/${maxRetries} failed: ${lastError.message}`);
       
       if (attempt < maxRetries) {
         const delay = delayMs * attempt; // Exponential backoff
         console.log(`⏳ Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await abortableDelay(delay, signal);
       }
     }
   }
@@ -70,37 +120,74 @@ function saveRequestResponseToFile(
   }
 }
 
-// Convert FEN to human-readable board representation
-function fenToReadableBoard(fen: string): string {
-  const pieceNames: Record<string, string> = {
-    'K': 'White King', 'Q': 'White Queen', 'R': 'White Rook', 
-    'B': 'White Bishop', 'N': 'White Knight', 'P': 'White Pawn',
-    'k': 'Black King', 'q': 'Black Queen', 'r': 'Black Rook',
-    'b': 'Black Bishop', 'n': 'Black Knight', 'p': 'Black Pawn'
-  };
-  
-  const boardPart = fen.split(' ')[0];
-  const ranks = boardPart.split('/');
-  const pieces: string[] = [];
+const UCI_PATTERN = /^[a-h][1-8][a-h][1-8][qrbn]?$/;
+
+export type ChatTurn = { role: 'user' | 'assistant'; content: string };
+
+// The rendered template's system prompt, then its user prompt followed by each rejected answer
+// and the feedback explaining why it was illegal; in conversation mode the earlier turns come first
+function buildMoveConversation(request: AIMoveRequest): { system: string; turns: ChatTurn[] } {
+  if (!request.renderedPrompt) throw new Error('Move prompt was not rendered');
+  const history = request.history;
+  const system = history?.summary ? `${request.renderedPrompt.system}\n\n${history.summary}` : request.renderedPrompt.system;
+  const turns: ChatTurn[] = [...(history?.turns || []), { role: 'user', content: request.renderedPrompt.user }];
   
-  for (let rankIdx = 0; rankIdx < ranks.length; rankIdx++) {
-    const rank = ranks[rankIdx];
-    const rankNumber = 8 - rankIdx;
-    let fileIdx = 0;
-    
-    for (const char of rank) {
-      if (char >= '1' && char <= '8') {
-        fileIdx += parseInt(char);
-      } else {
-        const file = String.fromCharCode(97 + fileIdx); // 'a' + fileIdx
-        const square = file + rankNumber;
-        pieces.push(`${square}: ${pieceNames[char]}`);
-        fileIdx++;
+  for (const attempt of request.previousAttempts || []) {
+    // Answers that never resolved to squares are replayed as written
+    const answer = UCI_PATTERN.test(attempt.move)
+      ? {
+        from: attempt.move.substring(0, 2),
+        to: attempt.move.substring(2, 4),
+        ...(attempt.move.length > 4 ? { promotion: attempt.move[4] } : {}),
       }
-    }
+      : { move: attempt.move };
+    turns.push({ role: 'assistant', content: JSON.stringify(answer) });
+    turns.push({ role: 'user', content: `${attempt.feedback}\nChoose a different, legal move and respond with valid JSON.` });
+  }
+  
+  return { system, turns };
+}
+
+const PIECE_NAMES: Record<string, string> = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king',
+};
+
+// Explain in plain words why a move (UCI, or an unresolved answer as written) is illegal in the given position, or return null if it is legal
+export function explainIllegalMove(fen: string, uci: string): string | null {
+  const game = new Chess(fen);
+  const legalMoves = game.moves({ verbose: true });
+  const from = uci.substring(0, 2);
+  const to = uci.substring(2, 4);
+  const promotion = uci[4];
+  
+  if (legalMoves.some(m => m.from === from && m.to === to && (m.promotion || undefined) === promotion)) {
+    return null;
+  }
+  
+  const legalList = legalMoves.map(m => m.lan).join(', ');
+  if (!UCI_PATTERN.test(uci) || !isSquare(from)) {
+    return `${uci} is not a legal move in this position. Legal moves are: ${legalList}.`;
+  }
+  const side = game.turn() === 'w' ? 'White' : 'Black';
+  const piece = game.get(from);
+  const fromMoves = legalMoves.filter(m => m.from === from);
+  
+  let reason: string;
+  if (!piece) {
+    reason = `there is no piece on ${from}`;
+  } else if (piece.color !== game.turn()) {
+    reason = `the ${PIECE_NAMES[piece.type]} on ${from} belongs to your opponent, you are playing ${side}`;
+  } else if (fromMoves.length === 0) {
+    reason = `the ${PIECE_NAMES[piece.type]} on ${from} has no legal moves${game.inCheck() ? ' (your king is in check)' : ''}`;
+  } else if (fromMoves.some(m => m.to === to)) {
+    reason = promotion
+      ? `${promotion} is not a valid promotion for this move`
+      : `moving the pawn to ${to} is a promotion and needs a promotion piece (q, r, b or n)`;
+  } else {
+    reason = `the ${PIECE_NAMES[piece.type]} on ${from} cannot move to ${to}${game.inCheck() ? ' while your king is in check' : ''}; its legal moves are ${fromMoves.map(m => m.lan).join(', ')}`;
   }
   
-  return pieces.join(', ');
+  return `${uci} is illegal because ${reason}. Legal moves are: ${legalList}.`;
 }
 
 export interface PieceMoves {
@@ -112,32 +199,203 @@ export interface PieceMoves {
 export interface AIMoveRequest {
   fen: string;
   moveHistory: string[];
+  // Position moveHistory was played from, for engines that replay the game to see repetitions
+  startFen?: string;
+  // Same moves in SAN, for templates that show the game score
+  moveHistorySan?: string[];
   playerColor: 'w' | 'b';
   model?: string;
+  temperature?: number;
   legalMoves?: string[];
   piecesMoves?: PieceMoves[];
+  // Illegal answers already given for this position, replayed to the model as conversation turns
+  previousAttempts?: MoveCorrection[];
+  // Time left under the game's time control, shown to the model
+  clock?: MoveClock;
+  // Aborts the provider call when the answer is no longer wanted (flag fall, aborted match)
+  signal?: AbortSignal;
+  // Prompt template name, see PromptLibrary; the default template when omitted
+  prompt?: string;
+  // How the template's {{position}} and {{moves}} describe the board
+  encoding?: BoardEncoding;
+  // Filled in by AIService.getMove from the template, read by the LLM providers
+  renderedPrompt?: RenderedPrompt;
+  // Conversation mode: earlier turns of this player are replayed, keyed by gameId
+  conversation?: ConversationOptions;
+  gameId?: string;
+  // Filled in by AIService.getMove in conversation mode
+  history?: ConversationHistory;
+  // Tool mode: the model inspects the position through function calls, see chessTools
+  tools?: ToolOptions;
+  // Filled in by AIService.getMove in tool mode, where one answer takes several API requests
+  meter?: RequestMeter;
+  // Filled in by AIService.getMove from MODEL_PRICING; providers price their usage with it
+  pricing?: ModelPricing;
+}
+
+// Spending and rate limits applied to each API request of a tool loop
+export interface RequestMeter {
+  acquire(): Promise<void>;
+  record(usage: TokenUsage | undefined): Promise<void>;
+}
+
+export interface MoveClock {
+  // Time left for this move: the whole clock, or the fixed per-move budget
+  remainingMs: number;
+  opponentMs?: number;
+  incrementMs?: number;
+  perMove?: boolean;
+}
+
+export interface MoveCorrection {
+  move: string;
+  feedback: string;
 }
 
 export interface AIMoveResponse {
   move: string;
   confidence?: number;
   reasoning?: string;
+  // Number of times the model had to be re-prompted after an illegal move
+  corrections?: number;
+  // True when the returned move is legal in the requested position
+  legal?: boolean;
+  // Tokens spent on this move, summed over corrections; absent for engines
+  usage?: TokenUsage;
+  // Prompt template the move was asked with; absent for engines
+  prompt?: string;
+  // How the model wrote the move, see parseMove; absent for engines
+  notation?: MoveNotation;
+  // Tool mode only: every call made for this move, corrections included
+  toolCalls?: ToolCallRecord[];
+}
+
+// Token counts in the OpenAI chat completions format, also used by OpenRouter and most compatible servers
+function openAIUsage(usage: OpenAI.CompletionUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+  };
+}
+
+// OpenRouter lists prices as USD-per-token strings
+function parsePricing(raw: unknown): ModelPricing | undefined {
+  const pricing = raw as { prompt?: string; completion?: string; request?: string } | undefined;
+  const prompt = parseFloat(pricing?.prompt ?? '');
+  const completion = parseFloat(pricing?.completion ?? '');
+  if (!Number.isFinite(prompt) || !Number.isFinite(completion)) return undefined;
+  const request = parseFloat(pricing?.request ?? '');
+  return { prompt, completion, ...(request > 0 ? { request } : {}) };
 }
 
 export interface AIProvider {
   name: string;
-  models: { id: string; name: string }[];
+  models: ModelInfo[];
   loadModels(): Promise<void>;
   getMove(request: AIMoveRequest): Promise<AIMoveResponse>;
+  // Tool mode, for providers with function calling
+  getToolMove?(request: AIMoveRequest): Promise<AIMoveResponse>;
+  // For catalogs larger than the models offered by default
+  searchModels?(filter: ModelFilter): Promise<ModelInfo[]>;
+  // List price of a model, for providers that publish one
+  getPricing?(model: string | undefined): ModelPricing | undefined;
+}
+
+// Tool-mode loop for the OpenAI chat completions API: answer tool calls until submit_move,
+// forcing it once the cap is reached; a plain-text answer is parsed as the move.
+// pricing turns each request's tokens into an estimated cost before it is metered
+async function openAIToolMove(
+  openai: OpenAI,
+  providerName: string,
+  model: string,
+  request: AIMoveRequest,
+  pricing?: ModelPricing
+): Promise<AIMoveResponse> {
+  const { system, turns } = buildMoveConversation(request);
+  const session = new ToolSession(request.fen, request.tools);
+  const messages: OpenAI.ChatCompletionMessageParam[] = [
+    { role: 'system', content: `${system}\n\n${toolInstructions(session.maxToolCalls)}` },
+    ...turns,
+  ];
+  const tools: OpenAI.ChatCompletionTool[] = CHESS_TOOLS.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+  let usage: TokenUsage | undefined;
+
+  while (!session.submitted) {
+    const forceSubmit = session.exhausted;
+    await request.meter?.acquire();
+    const completion = await openai.chat.completions.create({
+      model,
+      messages,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: 600,
+      tools,
+      tool_choice: forceSubmit ? { type: 'function', function: { name: SUBMIT_TOOL } } : 'auto',
+    }, { signal: request.signal });
+    const roundUsage = openAIUsage(completion.usage);
+    const cost = roundUsage && estimateCost(roundUsage, pricing);
+    await request.meter?.record(cost);
+    usage = addUsage(usage, cost);
+
+    const message = completion.choices[0]?.message;
+    const toolCalls = (message?.tool_calls || []).filter(call => call.type === 'function');
+    if (toolCalls.length === 0) {
+      if (!message?.content) throw new Error(`No move returned by ${providerName}`);
+      return { ...parseMoveText(message.content, request.fen), usage, toolCalls: session.calls };
+    }
+
+    messages.push({ role: 'assistant', content: message!.content, tool_calls: toolCalls });
+    for (const call of toolCalls) {
+      const result = session.call(call.function.name, parseToolArguments(call.function.arguments));
+      messages.push({ role: 'tool', tool_call_id: call.id, content: result });
+    }
+    if (forceSubmit && !session.submitted) {
+      throw new ToolCallLimitError(providerName, session.maxToolCalls);
+    }
+  }
+
+  return { ...session.submitted, usage, toolCalls: session.calls };
+}
+
+// Fields OpenRouter adds to the OpenAI model object
+interface OpenRouterModel {
+  id: string;
+  name?: string;
+  context_length?: number;
+  pricing?: unknown;
+  supported_parameters?: string[];
+}
+
+function openRouterModelInfo(model: OpenRouterModel): ModelInfo {
+  const params = model.supported_parameters || [];
+  return {
+    id: model.id,
+    name: model.name || model.id,
+    contextLength: model.context_length || undefined,
+    pricing: parsePricing(model.pricing),
+    structuredOutputs: params.includes('structured_outputs'),
+    reasoning: params.includes('reasoning') || params.includes('include_reasoning'),
+    tools: params.includes('tools'),
+  };
 }
 
 export class OpenRouterProvider implements AIProvider {
   name = 'openrouter';
-  models: { id: string; name: string }[] = [];
-  private allModels: { id: string; name: string }[] = [];
+  // The catalog narrowed down by OPENROUTER_MODELS_INCLUDE/EXCLUDE
+  models: ModelInfo[] = [];
+  private allModels: ModelInfo[] = [];
+  private pricing = new Map<string, ModelPricing>();
+  private include: string[];
+  private exclude: string[];
   private openai: OpenAI;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, include: string[] = DEFAULT_INCLUDE, exclude: string[] = []) {
+    this.include = include;
+    this.exclude = exclude;
     this.openai = new OpenAI({
       apiKey,
       baseURL: 'https://openrouter.ai/api/v1',
@@ -151,187 +409,488 @@ export class OpenRouterProvider implements AIProvider {
   async loadModels(): Promise<void> {
     try {
       const response = await this.openai.models.list();
-      const models: { id: string; name: string }[] = [];
-      
-      for (const model of response.data) {
-        if (model.id.includes('gemini') || model.id.includes('gpt') || model.id.includes('claude') || model.id.includes('deepseek')) {
-          // Use full model ID as the display name for clarity
-          models.push({ 
-            id: model.id, 
-            name: model.id
-          });
-        }
+      this.allModels = response.data.map(model => openRouterModelInfo(model as unknown as OpenRouterModel));
+      for (const model of this.allModels) {
+        if (model.pricing) this.pricing.set(model.id, model.pricing);
       }
-      
-      this.allModels = models;
-      this.models = models.slice(0, 50); // Limit to first 50 models
-      console.log(`  OpenRouter: loaded ${this.models.length} models (filtered from ${models.length} total)`);
+      this.models = filterModels(this.allModels, { include: this.include, exclude: this.exclude });
+      console.log(`  OpenRouter: loaded ${this.models.length} models (filtered from ${this.allModels.length} total)`);
     } catch (err) {
       console.error('  OpenRouter: failed to load models, using fallback', err);
       this.models = [
-        { id: 'google/gemini-2.0-flash-001', name: 'google/gemini-2.0-flash-001' },
-        { id: 'openai/gpt-4o', name: 'openai/gpt-4o' },
-        { id: 'anthropic/claude-sonnet-4', name: 'anthropic/claude-sonnet-4' },
+        { id: 'google/gemini-2.0-flash-001', name: 'Google: Gemini 2.0 Flash' },
+        { id: 'openai/gpt-4o', name: 'OpenAI: GPT-4o' },
+        { id: 'anthropic/claude-sonnet-4', name: 'Anthropic: Claude Sonnet 4' },
       ];
       this.allModels = this.models;
     }
   }
 
-  async searchModels(query: string): Promise<{ id: string; name: string }[]> {
-    if (!query) return this.models;
-    
-    const lowerQuery = query.toLowerCase();
-    return this.allModels.filter(model => 
-      model.id.toLowerCase().includes(lowerQuery) || 
-      model.name.toLowerCase().includes(lowerQuery)
-    ).slice(0, 50);
+  // Searches the configured catalog; an include pattern in the filter searches every OpenRouter model instead
+  async searchModels(filter: ModelFilter): Promise<ModelInfo[]> {
+    const models = filter.include?.length ? this.allModels : this.models;
+    return filterModels(models, filter);
   }
 
   async getMove(request: AIMoveRequest): Promise<AIMoveResponse> {
     return await retryWithBackoff(async () => {
-      const prompt = this.buildPrompt(request);
+      const { system, turns: conversation } = buildMoveConversation(request);
       const model = request.model || this.models[0]?.id || 'google/gemini-2.0-flash-001';
 
       const completion = await this.openai.chat.completions.create({
         model,
         messages: [
-          { role: 'system', content: 'You are a chess grandmaster. Always respond with valid JSON containing from/to squares.' },
-          { role: 'user', content: prompt },
+          { role: 'system', content: system },
+          ...conversation,
         ],
-        temperature: 0.7,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
         max_completion_tokens: 200,
         response_format: {
           type: 'json_schema',
           json_schema: {
             name: 'chess_move',
-            schema: {
-              type: 'object',
-              required: ['from', 'to', 'reasoning'],
-              properties: {
-                from: { type: 'string', description: 'Starting square (e.g., e2)' },
-                to: { type: 'string', description: 'Destination square (e.g., e4)' },
-                reasoning: { type: 'string', description: 'Brief explanation' },
-              },
-              additionalProperties: true,
-            },
+            schema: MOVE_SCHEMA,
           },
         },
-      });
+      }, { signal: request.signal });
 
       const content = completion.choices[0]?.message?.content;
       if (!content) throw new Error('No response from OpenRouter');
 
       try {
-        const parsed = JSON.parse(content);
+        const result = parseMoveText(content, request.fen);
         
-        // Validate from/to squares are in correct format (2 characters each)
-        const from = String(parsed.from || '').toLowerCase().trim().substring(0, 2);
-        const to = String(parsed.to || '').toLowerCase().trim().substring(0, 2);
+        // Save request and response to file (disabled for production)
+        // saveRequestResponseToFile('openrouter', request, conversation[0].content, result);
         
-        // Validate promotion is a single character (q/r/b/n) or empty
-        let promotion = '';
-        if (parsed.promotion) {
-          const p = String(parsed.promotion).toLowerCase().trim();
-          if (p.length > 0 && 'qrbn'.includes(p[0])) {
-            promotion = p[0];
-          }
+        const usage = openAIUsage(completion.usage);
+        return { ...result, usage: usage && estimateCost(usage, request.pricing ?? this.pricing.get(model)) };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Failed to parse OpenRouter response: ${errorMessage}`);
+      }
+    }, 3, 1000, request.signal);
+  }
+
+  async getToolMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    return await retryWithBackoff(async () => {
+      const model = request.model || 'google/gemini-2.0-flash-001';
+      return openAIToolMove(this.openai, 'OpenRouter', model, request, request.pricing ?? this.pricing.get(model));
+    }, 3, 1000, request.signal);
+  }
+
+  getPricing(model: string | undefined): ModelPricing | undefined {
+    return this.pricing.get(model || this.models[0]?.id || 'google/gemini-2.0-flash-001');
+  }
+}
+
+export class AnthropicProvider implements AIProvider {
+  name = 'anthropic';
+  models: ModelInfo[] = [];
+  private client: Anthropic;
+
+  // baseURL lets tests point the SDK at a local stand-in server
+  constructor(apiKey: string, baseURL?: string) {
+    this.client = new Anthropic({
+      apiKey,
+      ...(baseURL ? { baseURL } : {}),
+    });
+  }
+
+  async loadModels(): Promise<void> {
+    try {
+      const models: ModelInfo[] = [];
+      for await (const model of this.client.models.list()) {
+        // Moves are requested through a forced tool call
+        models.push({ id: model.id, name: model.display_name || model.id, structuredOutputs: true, tools: true });
+      }
+      
+      this.models = models;
+      console.log(`  Anthropic: loaded ${this.models.length} models`);
+    } catch (err) {
+      console.error('  Anthropic: failed to load models, using fallback', err);
+      this.models = [
+        { id: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5' },
+        { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5' },
+      ];
+    }
+  }
+
+  async getMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    return await retryWithBackoff(async () => {
+      const { system, turns: conversation } = buildMoveConversation(request);
+      const model = request.model || this.models[0]?.id || 'claude-sonnet-4-5';
+
+      // Force a tool call so the move always comes back as structured input
+      const message = await this.client.messages.create({
+        model,
+        system,
+        messages: conversation,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: 400,
+        tools: [
+          {
+            name: 'submit_move',
+            description: 'Submit the chosen chess move',
+            input_schema: MOVE_SCHEMA,
+          },
+        ],
+        tool_choice: { type: 'tool', name: 'submit_move' },
+      }, { signal: request.signal });
+
+      const toolUse = message.content.find(block => block.type === 'tool_use');
+      if (!toolUse || toolUse.type !== 'tool_use') throw new Error('No move returned by Anthropic');
+
+      try {
+        const usage = estimateCost({
+          promptTokens: message.usage.input_tokens,
+          completionTokens: message.usage.output_tokens,
+          reasoningTokens: 0,
+        }, request.pricing);
+        return { ...parseMoveFields(toolUse.input, request.fen), usage };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Failed to parse Anthropic response: ${errorMessage}`);
+      }
+    }, 3, 1000, request.signal);
+  }
+
+  // Same loop as openAIToolMove, with Anthropic tool_use and tool_result blocks
+  async getToolMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    return await retryWithBackoff(async () => {
+      const { system, turns } = buildMoveConversation(request);
+      const model = request.model || this.models[0]?.id || 'claude-sonnet-4-5';
+      const session = new ToolSession(request.fen, request.tools);
+      const messages: Anthropic.MessageParam[] = [...turns];
+      const tools: Anthropic.Tool[] = CHESS_TOOLS.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      }));
+      let usage: TokenUsage | undefined;
+
+      while (!session.submitted) {
+        const forceSubmit = session.exhausted;
+        await request.meter?.acquire();
+        const message = await this.client.messages.create({
+          model,
+          system: `${system}\n\n${toolInstructions(session.maxToolCalls)}`,
+          messages,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          max_tokens: 1000,
+          tools,
+          tool_choice: forceSubmit ? { type: 'tool', name: SUBMIT_TOOL } : { type: 'auto' },
+        }, { signal: request.signal });
+        const roundUsage = estimateCost({
+          promptTokens: message.usage.input_tokens,
+          completionTokens: message.usage.output_tokens,
+          reasoningTokens: 0,
+        }, request.pricing);
+        await request.meter?.record(roundUsage);
+        usage = addUsage(usage, roundUsage);
+
+        const toolUses = message.content.filter(block => block.type === 'tool_use');
+        if (toolUses.length === 0) {
+          const text = message.content.map(block => (block.type === 'text' ? block.text : '')).join('\n');
+          if (!text.trim()) throw new Error('No move returned by Anthropic');
+          return { ...parseMoveText(text, request.fen), usage, toolCalls: session.calls };
         }
-        
-        // Validate square format (letter a-h, number 1-8)
-        const isValidSquare = (sq: string) => {
-          return sq.length === 2 && 
-                 sq[0] >= 'a' && sq[0] <= 'h' && 
-                 sq[1] >= '1' && sq[1] <= '8';
-        };
-        
-        if (!isValidSquare(from) || !isValidSquare(to)) {
-          throw new Error(`Invalid square format: from=${from}, to=${to}`);
+
+        messages.push({ role: 'assistant', content: message.content });
+        messages.push({
+          role: 'user',
+          content: toolUses.map(block => ({
+            type: 'tool_result' as const,
+            tool_use_id: block.id,
+            content: session.call(block.name, (block.input || {}) as Record<string, unknown>),
+          })),
+        });
+        if (forceSubmit && !session.submitted) {
+          throw new ToolCallLimitError('Anthropic', session.maxToolCalls);
         }
+      }
+
+      return { ...session.submitted, usage, toolCalls: session.calls };
+    }, 3, 1000, request.signal);
+  }
+}
+
+export class GeminiProvider implements AIProvider {
+  name = 'gemini';
+  models: ModelInfo[] = [];
+  private client: GoogleGenAI;
+
+  constructor(apiKey: string, baseURL?: string) {
+    this.client = new GoogleGenAI({
+      apiKey,
+      ...(baseURL ? { httpOptions: { baseUrl: baseURL } } : {}),
+    });
+  }
+
+  async loadModels(): Promise<void> {
+    try {
+      const models: ModelInfo[] = [];
+      const pager = await this.client.models.list();
+      
+      for await (const model of pager) {
+        if (!model.name || !model.name.includes('gemini')) continue;
+        // Skip embedding/tuning-only models that cannot answer a move prompt
+        if (model.supportedActions && !model.supportedActions.includes('generateContent')) continue;
         
-        // Convert from/to format to UCI notation
-        const move = from + to + promotion;
-        const result = { move, reasoning: parsed.reasoning };
-        
-        // Save request and response to file (disabled for production)
-        // saveRequestResponseToFile('openrouter', request, prompt, result);
-        
-        return result;
+        const id = model.name.replace(/^models\//, '');
+        models.push({ id, name: model.displayName || id, contextLength: model.inputTokenLimit, reasoning: model.thinking, structuredOutputs: true });
+      }
+      
+      this.models = models;
+      console.log(`  Gemini: loaded ${this.models.length} models`);
+    } catch (err) {
+      console.error('  Gemini: failed to load models, using fallback', err);
+      this.models = [
+        { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
+        { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro' },
+      ];
+    }
+  }
+
+  async getMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    return await retryWithBackoff(async () => {
+      const { system, turns: conversation } = buildMoveConversation(request);
+      const model = request.model || this.models[0]?.id || 'gemini-2.5-flash';
+
+      const response = await this.client.models.generateContent({
+        model,
+        contents: conversation.map(turn => ({
+          role: turn.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: turn.content }],
+        })),
+        config: {
+          systemInstruction: system,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          responseMimeType: 'application/json',
+          responseJsonSchema: MOVE_SCHEMA,
+          abortSignal: request.signal,
+        },
+      });
+
+      const content = response.text;
+      if (!content) throw new Error('No response from Gemini');
+
+      // Gemini reports thinking tokens separately from the answer
+      const metadata = response.usageMetadata;
+      const usage: TokenUsage | undefined = metadata && {
+        promptTokens: metadata.promptTokenCount ?? 0,
+        completionTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+        reasoningTokens: metadata.thoughtsTokenCount ?? 0,
+      };
+
+      try {
+        return { ...parseMoveText(content, request.fen), usage: usage && estimateCost(usage, request.pricing) };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Failed to parse OpenRouter response: ${errorMessage}`);
+        throw new Error(`Failed to parse Gemini response: ${errorMessage}`);
       }
+    }, 3, 1000, request.signal);
+  }
+}
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseURL: string;
+  apiKey?: string;
+  models?: (string | { id: string; name?: string })[];
+}
+
+type ResponseMode = 'json_schema' | 'json_object' | 'text';
+
+export class OpenAICompatibleProvider implements AIProvider {
+  name: string;
+  models: ModelInfo[] = [];
+  private openai: OpenAI;
+  private configuredModels: ModelInfo[];
+  // Last response_format each model accepted, so fallbacks are only probed once
+  private responseModes = new Map<string, ResponseMode>();
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.openai = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseURL,
     });
+    this.configuredModels = (config.models || []).map(m =>
+      typeof m === 'string' ? { id: m, name: m } : { id: m.id, name: m.name || m.id }
+    );
   }
 
-  private buildPrompt(request: AIMoveRequest): string {
-    const colorName = request.playerColor === 'w' ? 'White' : 'Black';
-    const moveHistoryStr = request.moveHistory.length > 0 
-      ? request.moveHistory.join(', ') 
-      : 'Game start';
+  async loadModels(): Promise<void> {
+    if (this.configuredModels.length > 0) {
+      this.models = this.configuredModels;
+      console.log(`  ${this.name}: using ${this.models.length} configured models`);
+      return;
+    }
     
-    let movesSection = '';
-    if (request.piecesMoves && request.piecesMoves.length > 0) {
-      movesSection = '*** LEGAL MOVES BY PIECE ***\n';
-      for (const pm of request.piecesMoves) {
-        movesSection += `${pm.piece} on ${pm.square}: ${pm.moves.join(', ')}\n`;
+    try {
+      const response = await this.openai.models.list();
+      this.models = response.data.map(model => ({ id: model.id, name: model.id }));
+      console.log(`  ${this.name}: loaded ${this.models.length} models`);
+    } catch (err) {
+      console.error(`  ${this.name}: failed to load models`, err);
+      this.models = [];
+    }
+  }
+
+  async getMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    return await retryWithBackoff(async () => {
+      const { system, turns: conversation } = buildMoveConversation(request);
+      const model = request.model || this.models[0]?.id;
+      if (!model) throw new Error(`No model configured for ${this.name}`);
+
+      const { content, usage } = await this.complete(model, system, conversation, request.temperature ?? DEFAULT_TEMPERATURE, request.signal);
+
+      try {
+        return { ...parseMoveText(content, request.fen), usage: usage && estimateCost(usage, request.pricing) };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Failed to parse ${this.name} response: ${errorMessage}`);
+      }
+    }, 3, 1000, request.signal);
+  }
+
+  // Servers without function calling reject the request, which surfaces as a move error
+  async getToolMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    return await retryWithBackoff(async () => {
+      const model = request.model || this.models[0]?.id;
+      if (!model) throw new Error(`No model configured for ${this.name}`);
+      return openAIToolMove(this.openai, this.name, model, request, request.pricing);
+    }, 3, 1000, request.signal);
+  }
+
+  // Try json_schema, then json_object, then plain text until the server accepts the request
+  private async complete(
+    model: string,
+    system: string,
+    conversation: ChatTurn[],
+    temperature: number,
+    signal?: AbortSignal
+  ): Promise<{ content: string; usage?: TokenUsage }> {
+    const modes: ResponseMode[] = ['json_schema', 'json_object', 'text'];
+    const start = modes.indexOf(this.responseModes.get(model) || 'json_schema');
+
+    for (let i = start; i < modes.length; i++) {
+      const mode = modes[i];
+      try {
+        const completion = await this.openai.chat.completions.create({
+          model,
+          messages: [
+            { role: 'system', content: system },
+            ...conversation,
+          ],
+          temperature,
+          max_tokens: 400,
+          ...(mode === 'json_schema'
+            ? { response_format: { type: 'json_schema' as const, json_schema: { name: 'chess_move', schema: MOVE_SCHEMA } } }
+            : mode === 'json_object'
+              ? { response_format: { type: 'json_object' as const } }
+              : {}),
+        }, { signal });
+
+        this.responseModes.set(model, mode);
+        const content = completion.choices[0]?.message?.content;
+        if (!content) throw new Error(`No response from ${this.name}`);
+        return { content, usage: openAIUsage(completion.usage) };
+      } catch (error) {
+        const rejected = error instanceof OpenAI.APIError && [400, 422, 501].includes(error.status ?? 0);
+        if (!rejected || i === modes.length - 1) throw error;
+        console.log(`⚠️ ${this.name}: ${model} rejected response_format ${mode}, falling back to ${modes[i + 1]}`);
       }
-    } else if (request.legalMoves && request.legalMoves.length > 0) {
-      movesSection = `*** LEGAL MOVES AVAILABLE ***\nYou MUST choose one of these moves (in UCI format):\n${request.legalMoves.join(', ')}\n`;
-    } else {
-      movesSection = '*** LEGAL MOVES AVAILABLE ***\nNot provided\n';
     }
+
+    throw new Error(`No response from ${this.name}`);
+  }
+}
+
+// Parse OPENAI_COMPATIBLE_PROVIDERS, a JSON array of OpenAICompatibleConfig entries
+function loadOpenAICompatibleConfigs(raw: string | undefined): OpenAICompatibleConfig[] {
+  if (!raw) return [];
+  
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error('expected a JSON array');
     
-    const prompt = `You are playing chess as ${colorName}. Analyze the position and choose the BEST legal move.
-
-CRITICAL RULES:
-1. You MUST respond with separate "from" and "to" squares
-2. The move MUST be one of the legal moves listed below
-3. Square format: files a-h, ranks 1-8 (e.g., e2, d4, h8)
-4. Examples:
-   - Pawn move: from="e2", to="e4"
-   - Knight move: from="g1", to="f3"
-   - Pawn promotion: from="e7", to="e8", promotion="q"
-
-CURRENT POSITION (after all moves have been played):
-FEN: ${request.fen}
-Board (human-readable): ${fenToReadableBoard(request.fen)}
-Move History (already played): ${moveHistoryStr}
-
-${movesSection}
-*** IT IS YOUR TURN ***
-YOU ARE PLAYING AS: ${colorName}
-YOU MUST MOVE A ${colorName} PIECE
-${colorName.toUpperCase()} TO MOVE
-
-IMPORTANT:
-- You MUST select one move from the legal moves list above
-- DO NOT make up moves that are not in the legal moves list
-- The board position shows the CURRENT state AFTER all moves in the history
-- DO NOT repeat any move from the move history
-- You can ONLY move ${colorName} pieces
-
-INSTRUCTIONS:
-1. Review the legal moves for each piece carefully
-2. Evaluate each legal move for tactical opportunities (checks, captures, threats)
-3. Choose the strongest move from the available options
-4. Extract the "from" and "to" squares from your chosen move
-5. Respond with valid JSON
-
-Example: If you choose move "e2e4", respond with from="e2", to="e4"
-
-Provide your response as JSON with "from" (starting square), "to" (destination square), optional "promotion" (q/r/b/n if the move includes it), and "reasoning" (brief explanation).`;
-    
-    return prompt;
+    return parsed.filter((entry: any) => {
+      if (!entry || typeof entry.name !== 'string' || typeof entry.baseURL !== 'string') {
+        console.error('❌ Skipping OpenAI-compatible provider without name/baseURL:', entry);
+        return false;
+      }
+      return true;
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`❌ Invalid OPENAI_COMPATIBLE_PROVIDERS: ${errorMessage}`);
+    return [];
   }
 }
 
 export class AIService {
   private providers: Map<string, AIProvider> = new Map();
   private initialized = false;
+  // How many times a model is re-prompted with feedback after answering an illegal move
+  private maxCorrections: number;
+  private limits: SpendingLimits;
+  // MODEL_PRICING, keyed provider/model like the limits
+  private pricing: Map<string, ModelPricing>;
+  // Local engines cost nothing and are exempt from budgets and rate limits
+  private unmetered = new Set<string>(['engine']);
+  private prompts: PromptLibrary;
+  private conversations: ConversationStore;
+
+  // spendingDir persists the spend counted against SPENDING_LIMITS across restarts,
+  // conversationsDir the message history of conversation-mode players
+  constructor(spendingDir?: string, conversationsDir?: string) {
+    this.maxCorrections = process.env.MAX_MOVE_CORRECTIONS ? parseInt(process.env.MAX_MOVE_CORRECTIONS, 10) : 2;
+    this.limits = new SpendingLimits(loadSpendingLimits(process.env.SPENDING_LIMITS), spendingDir);
+    this.pricing = loadModelPricing(process.env.MODEL_PRICING);
+    this.prompts = new PromptLibrary(process.env.PROMPTS_DIR || path.join(__dirname, '../../prompts'));
+    this.conversations = new ConversationStore(conversationsDir);
+
+    // Built-in baseline opponent, needs no API key or network access
+    this.providers.set('engine', new EngineProvider());
+
+    // Offline test/demo players (random, illegal, slow, failing, scripted)
+    if (process.env.MOCK_PROVIDER === 'true') {
+      this.providers.set('mock', new MockProvider({
+        latencyMs: process.env.MOCK_LATENCY_MS ? parseInt(process.env.MOCK_LATENCY_MS, 10) : undefined,
+        script: process.env.MOCK_SCRIPT ? process.env.MOCK_SCRIPT.split(/[\s,]+/).filter(Boolean) : undefined,
+      }));
+    }
 
-  constructor() {
     if (process.env.OPENROUTER_API_KEY) {
-      this.providers.set('openrouter', new OpenRouterProvider(process.env.OPENROUTER_API_KEY));
+      this.providers.set('openrouter', new OpenRouterProvider(
+        process.env.OPENROUTER_API_KEY,
+        parsePatterns(process.env.OPENROUTER_MODELS_INCLUDE),
+        parsePatterns(process.env.OPENROUTER_MODELS_EXCLUDE),
+      ));
+    }
+    if (process.env.ANTHROPIC_API_KEY) {
+      this.providers.set('anthropic', new AnthropicProvider(process.env.ANTHROPIC_API_KEY, process.env.ANTHROPIC_BASE_URL));
+    }
+    if (process.env.GEMINI_API_KEY) {
+      this.providers.set('gemini', new GeminiProvider(process.env.GEMINI_API_KEY, process.env.GEMINI_BASE_URL));
+    }
+    for (const config of loadOpenAICompatibleConfigs(process.env.OPENAI_COMPATIBLE_PROVIDERS)) {
+      if (this.providers.has(config.name)) {
+        console.error(`❌ Duplicate provider name "${config.name}", skipping`);
+        continue;
+      }
+      this.providers.set(config.name, new OpenAICompatibleProvider(config));
+    }
+    for (const config of loadUciEngineConfigs(process.env.UCI_ENGINES)) {
+      if (this.providers.has(config.name)) {
+        console.error(`❌ Duplicate provider name "${config.name}", skipping`);
+        continue;
+      }
+      this.providers.set(config.name, new UciEngineProvider(config));
+      this.unmetered.add(config.name);
     }
 
     console.log(`✅ Loaded AI providers: ${this.getAvailableProviders().join(', ') || 'none'}`);
@@ -357,31 +916,114 @@ export class AIService {
     return Array.from(this.providers.keys());
   }
 
-  getModels(provider: string): { id: string; name: string }[] {
+  getModels(provider: string, filter: ModelFilter = {}): ModelInfo[] {
     const p = this.providers.get(provider);
-    return p ? p.models : [];
+    return p ? filterModels(p.models, filter) : [];
   }
 
-  async searchModels(provider: string, query: string): Promise<{ id: string; name: string }[]> {
+  async searchModels(provider: string, filter: ModelFilter): Promise<ModelInfo[]> {
     const p = this.providers.get(provider);
     if (!p) return [];
-    
-    if ('searchModels' in p) {
-      return (p as any).searchModels(query);
-    }
-    
-    return p.models.filter(model => 
-      model.id.toLowerCase().includes(query.toLowerCase()) || 
-      model.name.toLowerCase().includes(query.toLowerCase())
-    );
+    return p.searchModels ? p.searchModels(filter) : filterModels(p.models, filter);
+  }
+
+  getPromptTemplates(): PromptTemplate[] {
+    return this.prompts.list();
   }
 
-  async getMove(provider: string, request: AIMoveRequest): Promise<AIMoveResponse> {
+  hasPromptTemplate(name: string): boolean {
+    return this.prompts.has(name);
+  }
+
+  getSpending(): Promise<SpendingStatus> {
+    return this.limits.status();
+  }
+
+  // Tool mode needs a provider with function calling
+  supportsTools(provider: string): boolean {
+    return !!this.providers.get(provider)?.getToolMove;
+  }
+
+  getConversations(gameId: string): Promise<GameConversations> {
+    return this.conversations.get(gameId);
+  }
+
+  // A budget cannot stop a model whose spend is never counted, so a metered model without a
+  // configured or listed price is refused while a budget applies to it
+  assertPriced(provider: string, model?: string): void {
+    const key = `${provider}/${model || 'default'}`;
+    if (this.unmetered.has(provider) || !this.limits.hasBudget(key)) return;
+    if (this.pricing.has(key) || this.providers.get(provider)?.getPricing?.(model)) return;
+    throw new Error(`${key} has no known price, so SPENDING_LIMITS cannot be enforced for it; add it to MODEL_PRICING`);
+  }
+
+  // Throws LimitExceededError once a budget or rate limit is reached, before calling the provider
+  async getMove(provider: string, request: AIMoveRequest, maxCorrections: number = this.maxCorrections): Promise<AIMoveResponse> {
     const p = this.providers.get(provider);
     if (!p) {
       throw new Error(`Provider ${provider} not available`);
     }
+    this.assertPriced(provider, request.model);
     
-    return await p.getMove(request);
+    // Engines never read a prompt
+    const renderedPrompt = this.unmetered.has(provider) ? undefined : this.prompts.render(request.prompt, request);
+    const useTools = !!(renderedPrompt && request.tools);
+    if (useTools && !p.getToolMove) {
+      throw new Error(`Provider ${provider} does not support tool mode`);
+    }
+    const conversationKey = renderedPrompt && request.conversation && request.gameId;
+    const history = conversationKey
+      ? conversationHistory((await this.conversations.get(conversationKey))[request.playerColor])
+      : undefined;
+    const attempts: MoveCorrection[] = [...(request.previousAttempts || [])];
+    // Every correction round is billed too
+    let usage: TokenUsage | undefined;
+    let toolCalls: ToolCallRecord[] | undefined;
+    const metered = !this.unmetered.has(provider);
+    const key = `${provider}/${request.model || 'default'}`;
+    // Tool loops meter each of their requests; other providers make one request per answer
+    const meter: RequestMeter | undefined = metered && useTools
+      ? { acquire: () => this.limits.acquire(key), record: answerUsage => this.limits.record(key, answerUsage) }
+      : undefined;
+    
+    for (let corrections = 0; ; corrections++) {
+      if (request.signal?.aborted) throw new Error('Move request aborted');
+      if (metered && !meter) await this.limits.acquire(key);
+      const moveRequest = { ...request, renderedPrompt, history, previousAttempts: attempts, meter, pricing: this.pricing.get(key) };
+      const answer = useTools ? await p.getToolMove!(moveRequest) : await p.getMove(moveRequest);
+      if (metered && !meter) await this.limits.record(key, answer.usage);
+      usage = addUsage(usage, answer.usage);
+      if (useTools) toolCalls = [...(toolCalls || []), ...(answer.toolCalls || [])];
+      const response = { ...answer, toolCalls };
+      const feedback = explainIllegalMove(request.fen, response.move);
+      
+      if (!feedback) {
+        if (conversationKey) await this.rememberTurn(conversationKey, request, response);
+        return { ...response, usage, corrections, legal: true, prompt: renderedPrompt?.template };
+      }
+      
+      if (corrections >= maxCorrections) {
+        console.log(`❌ ${provider}: still illegal after ${corrections} corrections: ${response.move}`);
+        return { ...response, usage, corrections, legal: false, prompt: renderedPrompt?.template };
+      }
+      
+      console.log(`🔁 ${provider}: ${feedback.split('.')[0]}, asking for a correction`);
+      attempts.push({ move: response.move, feedback });
+    }
+  }
+
+  // Append a legal move to the player's conversation, with the opponent's reply that led to it
+  private async rememberTurn(gameId: string, request: AIMoveRequest, response: AIMoveResponse): Promise<void> {
+    const game = new Chess(request.fen);
+    const [, turn, , , , fullmove] = request.fen.split(' ');
+    const ply = (parseInt(fullmove, 10) - 1) * 2 + (turn === 'b' ? 2 : 1);
+    const opponentMove = request.moveHistorySan?.[request.moveHistorySan.length - 1] ?? request.moveHistory[request.moveHistory.length - 1];
+    await this.conversations.append(gameId, request.playerColor, {
+      ply,
+      opponentMove,
+      fen: request.fen,
+      move: game.move(response.move).san,
+      reasoning: response.reasoning,
+    }, request.conversation?.windowTokens);
   }
 }
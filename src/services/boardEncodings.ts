@@ -0,0 +1,206 @@
+import { Chess, Move, Square } from 'chess.js';
+import type { PieceMoves } from './aiService';
+import type { StoredGame } from './gameStore';
+
+// How a player is shown the position, rendered into the {{position}} and {{moves}} template variables
+export interface BoardEncoding {
+  // pieces: every piece with its square; ascii/unicode: 8x8 diagram from the mover's side; fen: nothing beyond the FEN
+  board: 'pieces' | 'ascii' | 'unicode' | 'fen';
+  // Which pieces are attacked and how well they are defended
+  threats?: boolean;
+  material?: boolean;
+  moves: 'by-piece' | 'uci' | 'san';
+}
+
+export const BOARD_FORMATS: BoardEncoding['board'][] = ['pieces', 'ascii', 'unicode', 'fen'];
+export const MOVE_FORMATS: BoardEncoding['moves'][] = ['by-piece', 'uci', 'san'];
+
+// What every prompt used before encodings could be chosen
+export const DEFAULT_ENCODING: BoardEncoding = { board: 'pieces', moves: 'by-piece' };
+
+const PIECE_NAMES: Record<string, string> = {
+  p: 'Pawn', n: 'Knight', b: 'Bishop', r: 'Rook', q: 'Queen', k: 'King',
+};
+
+const PIECE_VALUES: Record<string, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+const UNICODE_PIECES: Record<string, string> = {
+  K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘', P: '♙',
+  k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟',
+};
+
+const colorName = (color: 'w' | 'b') => (color === 'w' ? 'White' : 'Black');
+
+// Validate an encoding from a request body; undefined and null mean the default encoding
+export function resolveEncoding(raw: unknown): BoardEncoding | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const value = raw as Record<string, unknown>;
+  const board = value.board ?? DEFAULT_ENCODING.board;
+  const moves = value.moves ?? DEFAULT_ENCODING.moves;
+  if (!BOARD_FORMATS.includes(board as BoardEncoding['board'])) throw new Error(`encoding.board must be one of ${BOARD_FORMATS.join(', ')}`);
+  if (!MOVE_FORMATS.includes(moves as BoardEncoding['moves'])) throw new Error(`encoding.moves must be one of ${MOVE_FORMATS.join(', ')}`);
+  return {
+    board: board as BoardEncoding['board'],
+    moves: moves as BoardEncoding['moves'],
+    ...(value.threats === true ? { threats: true } : {}),
+    ...(value.material === true ? { material: true } : {}),
+  };
+}
+
+// Compact label for PGN tags and summaries: "unicode+threats/san"
+export function encodingTag(encoding: BoardEncoding): string {
+  const extras = [encoding.threats && 'threats', encoding.material && 'material'].filter(Boolean);
+  return `${[encoding.board, ...extras].join('+')}/${encoding.moves}`;
+}
+
+export function pieceList(game: Chess): string {
+  const pieces: string[] = [];
+  for (const row of game.board()) {
+    for (const square of row) {
+      if (square) pieces.push(`${square.square}: ${colorName(square.color)} ${PIECE_NAMES[square.type]}`);
+    }
+  }
+  return pieces.join(', ');
+}
+
+// 8x8 diagram with coordinates, seen from the given side
+export function diagram(game: Chess, perspective: 'w' | 'b', unicode = false): string {
+  const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+  let rows = game.board().map((row, i) => {
+    const cells = row.map(square => {
+      if (!square) return unicode ? '·' : '.';
+      const letter = square.color === 'w' ? square.type.toUpperCase() : square.type;
+      return unicode ? UNICODE_PIECES[letter] : letter;
+    });
+    return { rank: 8 - i, cells };
+  });
+  if (perspective === 'b') {
+    rows = rows.reverse().map(row => ({ ...row, cells: [...row.cells].reverse() }));
+    files.reverse();
+  }
+  return [...rows.map(row => `${row.rank} ${row.cells.join(' ')}`), `  ${files.join(' ')}`].join('\n');
+}
+
+// "Knight on f3: attacked by e5 pawn; defended by g2 pawn, d1 queen"
+function describeAttacks(game: Chess, square: Square, owner: 'w' | 'b'): string | null {
+  const opponent = owner === 'w' ? 'b' : 'w';
+  const attackers = game.attackers(square, opponent);
+  if (attackers.length === 0) return null;
+  const name = (sq: Square) => `${sq} ${PIECE_NAMES[game.get(sq)!.type].toLowerCase()}`;
+  const defenders = game.attackers(square, owner);
+  const piece = game.get(square)!;
+  return `${PIECE_NAMES[piece.type]} on ${square}: attacked by ${attackers.map(name).join(', ')}; ` +
+    (defenders.length > 0 ? `defended by ${defenders.map(name).join(', ')}` : 'undefended');
+}
+
+// Attacked pieces of both sides from the mover's point of view
+export function threatSummary(game: Chess): string {
+  const mover = game.turn();
+  const ours: string[] = [];
+  const theirs: string[] = [];
+  for (const row of game.board()) {
+    for (const square of row) {
+      if (!square || square.type === 'k') continue;
+      const line = describeAttacks(game, square.square, square.color);
+      if (line) (square.color === mover ? ours : theirs).push(line);
+    }
+  }
+
+  const lines: string[] = [];
+  if (game.inCheck()) lines.push('Your king is in check.');
+  lines.push(`Your pieces under attack: ${ours.length > 0 ? `\n- ${ours.join('\n- ')}` : 'none'}`);
+  lines.push(`Opponent pieces you attack: ${theirs.length > 0 ? `\n- ${theirs.join('\n- ')}` : 'none'}`);
+  return lines.join('\n');
+}
+
+// "White: Q, 2R, B, N, 6P (31) | Black: ... (29) | White is up 2"
+export function materialSummary(game: Chess): string {
+  const counts: Record<'w' | 'b', Record<string, number>> = { w: {}, b: {} };
+  const totals = { w: 0, b: 0 };
+  for (const row of game.board()) {
+    for (const square of row) {
+      if (!square || square.type === 'k') continue;
+      counts[square.color][square.type] = (counts[square.color][square.type] ?? 0) + 1;
+      totals[square.color] += PIECE_VALUES[square.type];
+    }
+  }
+  const side = (color: 'w' | 'b') => {
+    const pieces = ['q', 'r', 'b', 'n', 'p']
+      .filter(type => counts[color][type])
+      .map(type => `${counts[color][type] > 1 ? counts[color][type] : ''}${type.toUpperCase()}`);
+    return `${colorName(color)}: ${pieces.join(', ') || 'king only'} (${totals[color]})`;
+  };
+  const difference = totals.w - totals.b;
+  const balance = difference === 0 ? 'material is equal' : `${colorName(difference > 0 ? 'w' : 'b')} is up ${Math.abs(difference)}`;
+  return `${side('w')} | ${side('b')} | ${balance}`;
+}
+
+export function encodePosition(game: Chess, encoding: BoardEncoding): string {
+  const blocks: string[] = [];
+  if (encoding.board === 'pieces') blocks.push(`Pieces: ${pieceList(game)}`);
+  if (encoding.board === 'ascii' || encoding.board === 'unicode') {
+    const legend = encoding.board === 'ascii' ? 'uppercase = White, lowercase = Black' : '♔♕♖♗♘♙ = White, ♚♛♜♝♞♟ = Black';
+    blocks.push(`Board from ${colorName(game.turn())}'s side (${legend}):\n${diagram(game, game.turn(), encoding.board === 'unicode')}`);
+  }
+  if (encoding.material) blocks.push(`Material: ${materialSummary(game)}`);
+  if (encoding.threats) blocks.push(threatSummary(game));
+  return blocks.join('\n\n');
+}
+
+// piecesMoves comes from the caller when it already grouped the moves
+export function encodeMoves(game: Chess, encoding: BoardEncoding, piecesMoves?: PieceMoves[]): string {
+  const moves = game.moves({ verbose: true });
+  if (encoding.moves === 'san') return `(SAN) ${moves.map(m => m.san).join(', ')}`;
+  if (encoding.moves === 'uci') return `(UCI) ${moves.map(m => m.lan).join(', ')}`;
+
+  const groups = piecesMoves && piecesMoves.length > 0 ? piecesMoves : groupByPiece(moves);
+  return groups.map(pm => `${pm.piece} on ${pm.square}: ${pm.moves.join(', ')}`).join('\n');
+}
+
+function groupByPiece(moves: Move[]): PieceMoves[] {
+  const groups = new Map<string, PieceMoves>();
+  for (const move of moves) {
+    const key = `${move.piece}_${move.from}`;
+    if (!groups.has(key)) groups.set(key, { piece: PIECE_NAMES[move.piece], square: move.from, moves: [] });
+    groups.get(key)!.moves.push(move.lan);
+  }
+  return Array.from(groups.values());
+}
+
+export interface EncodingStats {
+  // provider/model, as in the leaderboard
+  model: string;
+  // encodingTag of the player's encoding
+  encoding: string;
+  games: number;
+  moves: number;
+  // Illegal or unreadable answers that had to be corrected
+  corrections: number;
+  forfeits: number;
+  correctionsPerMove: number;
+}
+
+// Illegal-move rates per model and encoding, to compare encodings on the same model
+export function summarizeEncodings(games: StoredGame[]): EncodingStats[] {
+  const stats = new Map<string, EncodingStats>();
+  for (const game of games) {
+    for (const [color, player] of [['w', game.white], ['b', game.black]] as const) {
+      const model = `${player.provider}/${player.model || 'default'}`;
+      const encoding = encodingTag(player.encoding || DEFAULT_ENCODING);
+      const key = `${model} ${encoding}`;
+      if (!stats.has(key)) stats.set(key, { model, encoding, games: 0, moves: 0, corrections: 0, forfeits: 0, correctionsPerMove: 0 });
+      const entry = stats.get(key)!;
+      entry.games += 1;
+      for (const move of game.moves) {
+        if (move.color !== color) continue;
+        entry.moves += 1;
+        entry.corrections += move.corrections ?? 0;
+      }
+      if (game.metadata?.forfeitedBy === color) entry.forfeits += 1;
+    }
+  }
+
+  return Array.from(stats.values())
+    .map(entry => ({ ...entry, correctionsPerMove: entry.moves > 0 ? entry.corrections / entry.moves : 0 }))
+    .sort((a, b) => a.model.localeCompare(b.model) || a.correctionsPerMove - b.correctionsPerMove);
+}
@@ -0,0 +1,186 @@
+import { Chess, Color, validateFen } from 'chess.js';
+import type { AIMoveResponse } from './aiService';
+import { isSquare, parseMove } from './moveParser';
+
+export const DEFAULT_MAX_TOOL_CALLS = 8;
+export const MAX_TOOL_CALLS_LIMIT = 30;
+export const SUBMIT_TOOL = 'submit_move';
+
+// Tool mode: the model queries the position through function calls and answers with submit_move
+export interface ToolOptions {
+  // Tool calls allowed per move, failed submit_move calls included; then one forced submit_move round
+  maxToolCalls?: number;
+}
+
+export interface ToolCallRecord {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+}
+
+// The model used up its calls and the forced submit_move round without naming a readable move;
+// not retried, since every further round is another billed request
+export class ToolCallLimitError extends Error {
+  constructor(providerName: string, maxToolCalls: number) {
+    super(`${providerName} did not submit a readable move within ${maxToolCalls} tool calls`);
+    this.name = 'ToolCallLimitError';
+  }
+}
+
+// Provider-neutral definition, wrapped into each provider's tool format
+export interface ChessTool {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required: string[];
+  };
+}
+
+const SQUARE_PARAMETER = { type: 'string', description: 'Square in algebraic notation, e.g. e4' };
+
+export const CHESS_TOOLS: ChessTool[] = [
+  {
+    name: 'get_legal_moves',
+    description: 'List the legal moves (UCI and SAN) of the piece on a square, or of every piece when no square is given.',
+    parameters: { type: 'object', properties: { square: SQUARE_PARAMETER }, required: [] },
+  },
+  {
+    name: 'is_square_attacked',
+    description: 'Tell whether a square is attacked by the given side, and by which pieces.',
+    parameters: {
+      type: 'object',
+      properties: {
+        square: SQUARE_PARAMETER,
+        by: { type: 'string', enum: ['white', 'black'], description: 'Attacking side' },
+      },
+      required: ['square', 'by'],
+    },
+  },
+  {
+    name: 'make_hypothetical_move',
+    description: 'Play a move on a copy of the board and return the resulting FEN, without committing to it. Pass fen to continue a line from an earlier result.',
+    parameters: {
+      type: 'object',
+      properties: {
+        uci: { type: 'string', description: 'Move in UCI, e.g. g1f3 or e7e8q' },
+        fen: { type: 'string', description: 'Position to play from, the current position when omitted' },
+      },
+      required: ['uci'],
+    },
+  },
+  {
+    name: SUBMIT_TOOL,
+    description: 'Commit to your move for this turn. This ends your turn.',
+    parameters: {
+      type: 'object',
+      properties: {
+        uci: { type: 'string', description: 'Move in UCI, e.g. e2e4 or e7e8q' },
+        reasoning: { type: 'string', description: 'Brief explanation' },
+      },
+      required: ['uci'],
+    },
+  },
+];
+
+export function toolInstructions(maxToolCalls: number): string {
+  return `You can call tools to inspect the position before moving: get_legal_moves, is_square_attacked and make_hypothetical_move. ` +
+    `You may make at most ${maxToolCalls} tool calls, ${SUBMIT_TOOL} included. Finish by calling ${SUBMIT_TOOL} with your move in UCI.`;
+}
+
+// Validate tool options from a request body; true enables the mode with the default cap
+export function resolveToolOptions(raw: unknown): ToolOptions | undefined {
+  if (raw === undefined || raw === null || raw === false) return undefined;
+  if (raw === true) return {};
+  if (typeof raw !== 'object') throw new Error('tools must be true or { maxToolCalls }');
+  const { maxToolCalls } = raw as Record<string, unknown>;
+  if (maxToolCalls === undefined) return {};
+  if (typeof maxToolCalls !== 'number' || !Number.isInteger(maxToolCalls) || maxToolCalls < 0 || maxToolCalls > MAX_TOOL_CALLS_LIMIT) {
+    throw new Error(`tools.maxToolCalls must be an integer from 0 to ${MAX_TOOL_CALLS_LIMIT}`);
+  }
+  return { maxToolCalls };
+}
+
+function runTool(fen: string, name: string, args: Record<string, unknown>): unknown {
+  const game = new Chess(fen);
+  switch (name) {
+    case 'get_legal_moves': {
+      if (args.square !== undefined && !isSquare(args.square)) throw new Error(`invalid square ${args.square}`);
+      const moves = args.square ? game.moves({ square: args.square, verbose: true }) : game.moves({ verbose: true });
+      return { moves: moves.map(m => ({ uci: m.lan, san: m.san })) };
+    }
+    case 'is_square_attacked': {
+      if (!isSquare(args.square)) throw new Error(`invalid square ${args.square}`);
+      const by: Color | null = args.by === 'white' || args.by === 'w' ? 'w' : args.by === 'black' || args.by === 'b' ? 'b' : null;
+      if (!by) throw new Error('by must be white or black');
+      const attackers = game.attackers(args.square, by);
+      return { attacked: attackers.length > 0, attackers };
+    }
+    case 'make_hypothetical_move': {
+      const from = typeof args.fen === 'string' && args.fen ? args.fen : fen;
+      if (!validateFen(from).ok) throw new Error(`invalid fen ${from}`);
+      const line = new Chess(from);
+      const parsed = parseMove(from, String(args.uci ?? ''));
+      if (!parsed?.legal) throw new Error(`${args.uci} is not a legal move in ${from}`);
+      const move = line.move(parsed.move);
+      return { san: move.san, fen: line.fen(), check: line.inCheck(), checkmate: line.isCheckmate(), draw: line.isDraw() };
+    }
+    default:
+      throw new Error(`unknown tool ${name}`);
+  }
+}
+
+// Tool calls of one move: runs them against the position, enforces the cap and catches submit_move
+export class ToolSession {
+  calls: ToolCallRecord[] = [];
+  // Set once submit_move named a readable move; legality is checked by AIService like any other answer
+  submitted?: AIMoveResponse;
+  readonly maxToolCalls: number;
+  private fen: string;
+
+  constructor(fen: string, options: ToolOptions = {}) {
+    this.fen = fen;
+    this.maxToolCalls = options.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS;
+  }
+
+  // Every call counts, so a model repeating unreadable submits cannot keep the loop going
+  get exhausted(): boolean {
+    return this.calls.length >= this.maxToolCalls;
+  }
+
+  // Result text for the model; failures are reported back instead of thrown so it can try again
+  call(name: string, args: Record<string, unknown>): string {
+    let result: string;
+    if (name === SUBMIT_TOOL) {
+      const parsed = parseMove(this.fen, String(args.uci ?? args.move ?? ''));
+      if (parsed) {
+        this.submitted = { move: parsed.move, notation: parsed.notation, reasoning: typeof args.reasoning === 'string' ? args.reasoning : undefined };
+        result = 'Move submitted.';
+      } else {
+        result = `Error: cannot read "${args.uci}" as a move, submit it in UCI such as e2e4.`;
+      }
+    } else if (this.exhausted) {
+      result = `Error: tool call limit of ${this.maxToolCalls} reached, call ${SUBMIT_TOOL} now.`;
+    } else {
+      try {
+        result = JSON.stringify(runTool(this.fen, name, args));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        result = `Error: ${errorMessage}`;
+      }
+    }
+    this.calls.push({ name, arguments: args, result });
+    return result;
+  }
+}
+
+// Tool arguments arrive as a JSON string from OpenAI-style APIs
+export function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
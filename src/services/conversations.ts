@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ChatTurn } from './aiService';
+
+export const DEFAULT_WINDOW_TOKENS = 4000;
+export const MIN_WINDOW_TOKENS = 500;
+
+// Conversation mode: the player sees its own earlier moves and reasoning and the opponent's replies
+export interface ConversationOptions {
+  // Estimated tokens of replayed history; older turns are folded into a summary beyond it
+  windowTokens?: number;
+}
+
+// One move of the player, kept so it can be replayed on later moves
+export interface ConversationTurn {
+  ply: number;
+  // The opponent's move before this turn in SAN, absent when the player moved first
+  opponentMove?: string;
+  fen: string;
+  // The player's move in SAN and the reasoning it gave
+  move: string;
+  reasoning?: string;
+}
+
+export interface Conversation {
+  // One line per turn folded out of the window: "12. Nf3 - plan"
+  summary: string[];
+  turns: ConversationTurn[];
+}
+
+export type GameConversations = { w?: Conversation; b?: Conversation };
+
+// Earlier turns as chat messages, plus the summary of turns that no longer fit
+export interface ConversationHistory {
+  summary?: string;
+  turns: ChatTurn[];
+}
+
+// Validate conversation options from a request body; true enables the mode with the default window
+export function resolveConversation(raw: unknown): ConversationOptions | undefined {
+  if (raw === undefined || raw === null || raw === false) return undefined;
+  if (raw === true) return {};
+  if (typeof raw !== 'object') throw new Error('conversation must be true or { windowTokens }');
+  const { windowTokens } = raw as Record<string, unknown>;
+  if (windowTokens === undefined) return {};
+  if (typeof windowTokens !== 'number' || !Number.isFinite(windowTokens) || windowTokens < MIN_WINDOW_TOKENS) {
+    throw new Error(`conversation.windowTokens must be a number of at least ${MIN_WINDOW_TOKENS}`);
+  }
+  return { windowTokens: Math.floor(windowTokens) };
+}
+
+// Roughly four characters per token for English text and FEN; no tokenizer is shared by every provider
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+function turnMessages(turn: ConversationTurn): ChatTurn[] {
+  const position = `Position: ${turn.fen}`;
+  return [
+    { role: 'user', content: turn.opponentMove ? `Your opponent played ${turn.opponentMove}. ${position}` : position },
+    { role: 'assistant', content: `I play ${turn.move}.${turn.reasoning ? ` ${turn.reasoning}` : ''}` },
+  ];
+}
+
+const messagesTokens = (messages: ChatTurn[]) => messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+// "12. Nf3 - first sentence of the reasoning"
+function summaryLine(turn: ConversationTurn): string {
+  const number = Math.floor((turn.ply - 1) / 2) + 1;
+  const label = turn.ply % 2 === 1 ? `${number}. ${turn.move}` : `${number}... ${turn.move}`;
+  const plan = turn.reasoning?.split(/(?<=[.!?])\s/)[0].slice(0, 160);
+  return plan ? `${label} - ${plan}` : label;
+}
+
+// Fold the oldest turns into the summary until the replayed turns fit the window;
+// the summary itself keeps its newest lines within half the window
+export function fitWindow(conversation: Conversation, windowTokens: number): Conversation {
+  const turns = [...conversation.turns];
+  const summary = [...conversation.summary];
+  while (turns.length > 1 && messagesTokens(turns.flatMap(turnMessages)) + estimateTokens(summary.join('\n')) > windowTokens) {
+    summary.push(summaryLine(turns.shift()!));
+  }
+  while (summary.length > 1 && estimateTokens(summary.join('\n')) > windowTokens / 2) {
+    summary.shift();
+  }
+  return { summary, turns };
+}
+
+export function conversationHistory(conversation: Conversation | undefined): ConversationHistory {
+  if (!conversation) return { turns: [] };
+  return {
+    summary: conversation.summary.length > 0
+      ? `Summary of your earlier moves and plans in this game:\n${conversation.summary.join('\n')}`
+      : undefined,
+    turns: conversation.turns.flatMap(turnMessages),
+  };
+}
+
+// One JSON file per game with both players' conversations, read on first use
+export class ConversationStore {
+  private dir?: string;
+  private games = new Map<string, GameConversations>();
+  // Per-game write chain so consecutive moves land in order
+  private writes = new Map<string, Promise<void>>();
+
+  // Without a directory conversations only last until the server restarts
+  constructor(dir?: string) {
+    this.dir = dir;
+  }
+
+  async get(gameId: string): Promise<GameConversations> {
+    if (!this.games.has(gameId)) {
+      this.games.set(gameId, await this.readFile(gameId));
+    }
+    return this.games.get(gameId)!;
+  }
+
+  async append(gameId: string, color: 'w' | 'b', turn: ConversationTurn, windowTokens = DEFAULT_WINDOW_TOKENS): Promise<void> {
+    const game = await this.get(gameId);
+    const conversation = game[color] || { summary: [], turns: [] };
+    game[color] = fitWindow({ ...conversation, turns: [...conversation.turns, turn] }, windowTokens);
+
+    if (!this.dir) return;
+    const snapshot = JSON.stringify(game, null, 2);
+    const previous = this.writes.get(gameId) || Promise.resolve();
+    const write = previous.then(() => this.writeFile(gameId, snapshot));
+    this.writes.set(gameId, write.catch(error => {
+      console.error(`❌ Failed to save conversation for ${gameId}:`, error);
+    }));
+    await this.writes.get(gameId);
+  }
+
+  private filePath(gameId: string): string {
+    return path.join(this.dir!, `${encodeURIComponent(gameId)}.json`);
+  }
+
+  private async readFile(gameId: string): Promise<GameConversations> {
+    if (!this.dir) return {};
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath(gameId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`❌ Unreadable conversation file for ${gameId}, starting over:`, error);
+      }
+      return {};
+    }
+  }
+
+  private async writeFile(gameId: string, snapshot: string): Promise<void> {
+    await fs.promises.mkdir(this.dir!, { recursive: true });
+    const filepath = this.filePath(gameId);
+    const tmpPath = `${filepath}.tmp`;
+    await fs.promises.writeFile(tmpPath, snapshot);
+    await fs.promises.rename(tmpPath, filepath);
+  }
+}
@@ -0,0 +1,253 @@
+import { Chess, Move } from 'chess.js';
+import { AIProvider, AIMoveRequest, AIMoveResponse } from './aiService';
+
+const MATE_SCORE = 100000;
+const MAX_DEPTH = 4;
+// Used when the request names no model; deeper searches take seconds in the middlegame
+const DEFAULT_DEPTH = 2;
+// Per-move budget; once it runs out the deepest completed iteration is played
+const SEARCH_TIME_MS = 5000;
+const MAX_NODES = 200000;
+// Nodes searched between yields to the event loop, so matches and requests keep running
+const YIELD_INTERVAL = 20;
+
+const PIECE_VALUES: Record<string, number> = {
+  p: 100, n: 320, b: 330, r: 500, q: 900, k: 0,
+};
+
+// Piece-square tables from White's point of view, indexed [rank 8 .. rank 1][file a .. h]
+const PIECE_SQUARE_TABLES: Record<string, number[][]> = {
+  p: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [50, 50, 50, 50, 50, 50, 50, 50],
+    [10, 10, 20, 30, 30, 20, 10, 10],
+    [5, 5, 10, 25, 25, 10, 5, 5],
+    [0, 0, 0, 20, 20, 0, 0, 0],
+    [5, -5, -10, 0, 0, -10, -5, 5],
+    [5, 10, 10, -20, -20, 10, 10, 5],
+    [0, 0, 0, 0, 0, 0, 0, 0],
+  ],
+  n: [
+    [-50, -40, -30, -30, -30, -30, -40, -50],
+    [-40, -20, 0, 0, 0, 0, -20, -40],
+    [-30, 0, 10, 15, 15, 10, 0, -30],
+    [-30, 5, 15, 20, 20, 15, 5, -30],
+    [-30, 0, 15, 20, 20, 15, 0, -30],
+    [-30, 5, 10, 15, 15, 10, 5, -30],
+    [-40, -20, 0, 5, 5, 0, -20, -40],
+    [-50, -40, -30, -30, -30, -30, -40, -50],
+  ],
+  b: [
+    [-20, -10, -10, -10, -10, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 10, 10, 5, 0, -10],
+    [-10, 5, 5, 10, 10, 5, 5, -10],
+    [-10, 0, 10, 10, 10, 10, 0, -10],
+    [-10, 10, 10, 10, 10, 10, 10, -10],
+    [-10, 5, 0, 0, 0, 0, 5, -10],
+    [-20, -10, -10, -10, -10, -10, -10, -20],
+  ],
+  r: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [5, 10, 10, 10, 10, 10, 10, 5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [0, 0, 0, 5, 5, 0, 0, 0],
+  ],
+  q: [
+    [-20, -10, -10, -5, -5, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 5, 5, 5, 0, -10],
+    [-5, 0, 5, 5, 5, 5, 0, -5],
+    [0, 0, 5, 5, 5, 5, 0, -5],
+    [-10, 5, 5, 5, 5, 5, 0, -10],
+    [-10, 0, 5, 0, 0, 0, 0, -10],
+    [-20, -10, -10, -5, -5, -10, -10, -20],
+  ],
+  k: [
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-20, -30, -30, -40, -40, -30, -30, -20],
+    [-10, -20, -20, -20, -20, -20, -20, -10],
+    [20, 20, 0, 0, 0, 0, 20, 20],
+    [20, 30, 10, 0, 0, 10, 30, 20],
+  ],
+};
+
+interface SearchResult {
+  score: number;
+  pv: Move[];
+}
+
+export interface SearchLimits {
+  signal?: AbortSignal;
+  timeMs?: number;
+  maxNodes?: number;
+}
+
+// Thrown out of the search when the budget runs out
+class SearchBudgetExceeded extends Error {}
+
+// Node counting, yielding and budget checks shared by one search
+class SearchContext {
+  nodes = 0;
+  // The budget only stops a search once there is a completed iteration to fall back on
+  budgeted = false;
+  private deadline: number;
+  private maxNodes: number;
+
+  constructor(private limits: SearchLimits) {
+    this.deadline = Date.now() + (limits.timeMs ?? SEARCH_TIME_MS);
+    this.maxNodes = limits.maxNodes ?? MAX_NODES;
+  }
+
+  async visit(): Promise<void> {
+    this.nodes++;
+    if (this.nodes % YIELD_INTERVAL !== 0) return;
+    await new Promise(resolve => setImmediate(resolve));
+    if (this.limits.signal?.aborted) throw new Error('Move request aborted');
+    if (this.budgeted && (Date.now() > this.deadline || this.nodes > this.maxNodes)) {
+      throw new SearchBudgetExceeded();
+    }
+  }
+}
+
+// Static evaluation in centipawns from the side to move's point of view
+function evaluate(game: Chess): number {
+  let score = 0;
+  const board = game.board();
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+
+      // Black reads the White table upside down
+      const tableRow = piece.color === 'w' ? row : 7 - row;
+      const value = PIECE_VALUES[piece.type] + PIECE_SQUARE_TABLES[piece.type][tableRow][col];
+      score += piece.color === 'w' ? value : -value;
+    }
+  }
+
+  return game.turn() === 'w' ? score : -score;
+}
+
+// Captures and promotions first (most valuable victim, least valuable attacker), PV move before all
+function orderMoves(moves: Move[], pvMove?: Move): Move[] {
+  const moveScore = (m: Move) => {
+    if (pvMove && m.lan === pvMove.lan) return 1000000;
+    let s = 0;
+    if (m.captured) s += 10 * PIECE_VALUES[m.captured] - PIECE_VALUES[m.piece];
+    if (m.promotion) s += PIECE_VALUES[m.promotion];
+    return s;
+  };
+  return moves
+    .map((m, i) => ({ m, i, s: moveScore(m) }))
+    .sort((a, b) => b.s - a.s || a.i - b.i)
+    .map(x => x.m);
+}
+
+async function negamax(context: SearchContext, game: Chess, depth: number, ply: number, alpha: number, beta: number, pvLine: Move[]): Promise<SearchResult> {
+  await context.visit();
+  if (game.isCheckmate()) return { score: -MATE_SCORE + ply, pv: [] };
+  if (game.isDraw()) return { score: 0, pv: [] };
+  if (depth === 0) return { score: evaluate(game), pv: [] };
+
+  let best: SearchResult = { score: -Infinity, pv: [] };
+  const moves = orderMoves(game.moves({ verbose: true }), pvLine[ply]);
+
+  for (const move of moves) {
+    game.move({ from: move.from, to: move.to, promotion: move.promotion });
+    const child = await negamax(context, game, depth - 1, ply + 1, -beta, -alpha, pvLine);
+    game.undo();
+
+    const score = -child.score;
+    if (score > best.score) {
+      best = { score, pv: [move, ...child.pv] };
+    }
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) break;
+  }
+
+  return best;
+}
+
+// Iterative deepening: each completed depth seeds move ordering for the next,
+// and the last completed one is played when the budget runs out
+export async function searchPosition(
+  fen: string,
+  maxDepth: number,
+  limits: SearchLimits = {}
+): Promise<SearchResult & { depth: number; nodes: number; stopped: boolean }> {
+  if (limits.signal?.aborted) throw new Error('Move request aborted');
+  const context = new SearchContext(limits);
+  let result: SearchResult = { score: 0, pv: [] };
+  let depth = 0;
+  let stopped = false;
+
+  for (let d = 1; d <= maxDepth; d++) {
+    try {
+      // A fresh board per iteration, an interrupted one is left mid-line
+      result = await negamax(context, new Chess(fen), d, 0, -Infinity, Infinity, result.pv);
+    } catch (error) {
+      if (!(error instanceof SearchBudgetExceeded)) throw error;
+      stopped = true;
+      break;
+    }
+    depth = d;
+    context.budgeted = true;
+    // A forced mate will not get any better with more depth
+    if (Math.abs(result.score) >= MATE_SCORE - MAX_DEPTH * 2) break;
+  }
+
+  return { ...result, depth, nodes: context.nodes, stopped };
+}
+
+function formatScore(score: number): string {
+  if (Math.abs(score) >= MATE_SCORE - MAX_DEPTH * 2) {
+    const movesToMate = Math.ceil((MATE_SCORE - Math.abs(score)) / 2);
+    return `${score > 0 ? '' : '-'}M${movesToMate}`;
+  }
+  return `${score >= 0 ? '+' : ''}${(score / 100).toFixed(2)}`;
+}
+
+export class EngineProvider implements AIProvider {
+  name = 'engine';
+  models: { id: string; name: string }[] = [];
+
+  async loadModels(): Promise<void> {
+    this.models = [];
+    for (let depth = 1; depth <= MAX_DEPTH; depth++) {
+      this.models.push({ id: `engine/depth-${depth}`, name: `Engine (depth ${depth})` });
+    }
+    console.log(`  Engine: ${this.models.length} built-in models`);
+  }
+
+  async getMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    const modelId = request.model || `engine/depth-${DEFAULT_DEPTH}`;
+    const match = modelId.match(/^engine\/depth-(\d+)$/);
+    if (!match) throw new Error(`Unknown engine model: ${modelId}`);
+    const depth = Math.min(Math.max(parseInt(match[1], 10), 1), MAX_DEPTH);
+
+    // Under a time control, spend a share of the clock rather than the fixed budget
+    const clock = request.clock;
+    const timeMs = clock
+      ? Math.min(SEARCH_TIME_MS, clock.perMove ? clock.remainingMs / 2 : clock.remainingMs / 20)
+      : SEARCH_TIME_MS;
+    const result = await searchPosition(request.fen, depth, { signal: request.signal, timeMs });
+    const bestMove = result.pv[0];
+    if (!bestMove) throw new Error('Engine found no legal moves');
+
+    const pv = result.pv.map(m => m.lan).join(' ');
+    return {
+      move: bestMove.lan,
+      confidence: result.score,
+      reasoning: `Depth ${result.depth} search${result.stopped ? ' (budget reached)' : ''}, ${result.nodes} nodes, score ${formatScore(result.score)} (${result.score} cp). PV: ${pv}`,
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GameUsage, TokenUsage } from './usage';
+import type { BoardEncoding } from './boardEncodings';
+import type { MoveNotation } from './moveParser';
+import type { ConversationOptions } from './conversations';
+import type { ToolCallRecord, ToolOptions } from './chessTools';
+
+export interface StoredPlayer {
+  provider: string;
+  model?: string;
+  temperature?: number;
+  // Prompt template name; the default template when omitted
+  prompt?: string;
+  encoding?: BoardEncoding;
+  conversation?: ConversationOptions;
+  tools?: ToolOptions;
+}
+
+export interface StoredMove {
+  ply: number;
+  color: 'w' | 'b';
+  uci: string;
+  san: string;
+  fen?: string;
+  reasoning?: string;
+  confidence?: number;
+  corrections?: number;
+  notation?: MoveNotation;
+  toolCalls?: ToolCallRecord[];
+  latencyMs?: number;
+  // Mover's remaining clock after the move
+  clockMs?: number;
+  usage?: TokenUsage;
+  timestamp?: string;
+}
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface StoredGame {
+  id: string;
+  // Where the game came from: a server match, the manual /api/game endpoints, an import, ...
+  source: string;
+  white: StoredPlayer;
+  black: StoredPlayer;
+  startFen: string;
+  moves: StoredMove[];
+  status: 'running' | 'finished' | 'aborted';
+  result: GameResult;
+  termination?: string;
+  // Tokens and estimated cost per side, failed attempts included
+  usage?: GameUsage;
+  startedAt: string;
+  finishedAt?: string;
+  // Free-form extras (match options, tags, ...)
+  metadata?: Record<string, unknown>;
+}
+
+// Listing entry: everything except the move list
+export type GameSummary = Omit<StoredGame, 'moves'> & { plies: number };
+
+export interface GameQuery {
+  model?: string;
+  provider?: string;
+  result?: GameResult;
+  status?: StoredGame['status'];
+  source?: string;
+  // ISO dates, compared against startedAt
+  from?: string;
+  to?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface GameStore {
+  save(game: StoredGame): Promise<void>;
+  get(id: string): Promise<StoredGame | undefined>;
+  list(query?: GameQuery): Promise<{ games: GameSummary[]; total: number }>;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export function summarizeGame(game: StoredGame): GameSummary {
+  const { moves, ...rest } = game;
+  return { ...rest, plies: moves.length };
+}
+
+// Applies the filters and paging shared by every GameStore implementation
+export function queryGames(games: Iterable<StoredGame>, query: GameQuery = {}): { games: GameSummary[]; total: number } {
+  const fromTime = query.from ? Date.parse(query.from) : NaN;
+  const toTime = query.to ? Date.parse(query.to) : NaN;
+
+  const matches = Array.from(games).filter(game => {
+    if (query.model && game.white.model !== query.model && game.black.model !== query.model) return false;
+    if (query.provider && game.white.provider !== query.provider && game.black.provider !== query.provider) return false;
+    if (query.result && game.result !== query.result) return false;
+    if (query.status && game.status !== query.status) return false;
+    if (query.source && game.source !== query.source) return false;
+    const started = Date.parse(game.startedAt);
+    if (!isNaN(fromTime) && started < fromTime) return false;
+    if (!isNaN(toTime) && started > toTime) return false;
+    return true;
+  });
+
+  // Newest first
+  matches.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+  const offset = Math.max(query.offset ?? 0, 0);
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  return {
+    games: matches.slice(offset, offset + limit).map(summarizeGame),
+    total: matches.length,
+  };
+}
+
+// One JSON file per game, indexed in memory on first access
+export class JsonFileGameStore implements GameStore {
+  private dir: string;
+  private games = new Map<string, StoredGame>();
+  private loaded: Promise<void> | null = null;
+  // Per-game write chain so rapid saves of the same game land in order
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async save(game: StoredGame): Promise<void> {
+    await this.load();
+    const snapshot: StoredGame = JSON.parse(JSON.stringify(game));
+    this.games.set(game.id, snapshot);
+
+    const previous = this.writes.get(game.id) || Promise.resolve();
+    const write = previous.then(() => this.writeFile(snapshot));
+    this.writes.set(game.id, write.catch(() => undefined));
+    await write;
+  }
+
+  async get(id: string): Promise<StoredGame | undefined> {
+    await this.load();
+    return this.games.get(id);
+  }
+
+  async list(query: GameQuery = {}): Promise<{ games: GameSummary[]; total: number }> {
+    await this.load();
+    return queryGames(this.games.values(), query);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readAll();
+    }
+    return this.loaded;
+  }
+
+  private async readAll(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const files = (await fs.promises.readdir(this.dir)).filter(f => f.endsWith('.json'));
+
+    for (const file of files) {
+      try {
+        const game: StoredGame = JSON.parse(await fs.promises.readFile(path.join(this.dir, file), 'utf8'));
+        // A server match still marked running lost its game loop in the restart
+        if (game.status === 'running' && game.source === 'match') {
+          game.status = 'aborted';
+          game.result = '*';
+          game.termination = 'Server restarted';
+          game.finishedAt = new Date().toISOString();
+          await this.writeFile(game);
+        }
+        this.games.set(game.id, game);
+      } catch (error) {
+        console.error(`❌ Skipping unreadable game file ${file}:`, error);
+      }
+    }
+
+    console.log(`💾 Loaded ${this.games.size} stored games from ${this.dir}`);
+  }
+
+  // Write to a temp file and rename so a crash never leaves half a game on disk
+  private async writeFile(game: StoredGame): Promise<void> {
+    const filepath = path.join(this.dir, `${encodeURIComponent(game.id)}.json`);
+    const tmpPath = `${filepath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(game, null, 2));
+    await fs.promises.rename(tmpPath, filepath);
+  }
+}
@@ -0,0 +1,636 @@
+import { EventEmitter } from 'events';
+import { Chess } from 'chess.js';
+import { AIService, AIMoveRequest, MoveClock, PieceMoves } from './aiService';
+import { GameStore, StoredGame } from './gameStore';
+import { RatingService } from './ratingService';
+import { GameUsage, TokenUsage, addUsage } from './usage';
+import { LimitExceededError } from './spendingLimits';
+import { MoveNotation } from './moveParser';
+import { BoardEncoding, resolveEncoding } from './boardEncodings';
+import { ConversationOptions, resolveConversation } from './conversations';
+import { ToolCallRecord, ToolOptions, resolveToolOptions } from './chessTools';
+import { Clocks, TimeControl, hasMatingMaterial, initialClocks, resolveTimeControl, spendClock } from './timeControl';
+
+export interface MatchPlayer {
+  provider: string;
+  model?: string;
+  temperature?: number;
+  // Prompt template, see PromptLibrary; the default template when omitted
+  prompt?: string;
+  // How the template shows the board and legal moves; the default encoding when omitted
+  encoding?: BoardEncoding;
+  // Keep a message history across the game's moves, see ConversationStore
+  conversation?: ConversationOptions;
+  // Let the model query the position through tools before it moves, see chessTools
+  tools?: ToolOptions;
+}
+
+const optional = (value: unknown, type: 'string' | 'number') => value === undefined || typeof value === type;
+
+// Shape check for a player in a request body; option values are validated by their resolve functions
+export function isMatchPlayer(value: unknown): value is MatchPlayer {
+  if (!value || typeof value !== 'object') return false;
+  const player = value as Record<string, unknown>;
+  return typeof player.provider === 'string' &&
+    optional(player.model, 'string') &&
+    optional(player.temperature, 'number') &&
+    optional(player.prompt, 'string') &&
+    (player.encoding === undefined || (typeof player.encoding === 'object' && player.encoding !== null)) &&
+    (player.conversation === undefined || typeof player.conversation === 'boolean' || typeof player.conversation === 'object') &&
+    (player.tools === undefined || typeof player.tools === 'boolean' || typeof player.tools === 'object');
+}
+
+export interface MatchOptions {
+  // Consecutive failed attempts (illegal move or provider error) before a side forfeits
+  maxInvalidMoves?: number;
+  // Pause between moves so spectators can follow the game
+  moveDelayMs?: number;
+  // Hard cap on game length; a capped game ends unscored (*) and is not rated
+  maxPlies?: number;
+  // No time limit when omitted
+  timeControl?: TimeControl;
+}
+
+type NumericMatchOptions = Omit<MatchOptions, 'timeControl'>;
+
+export interface MatchMove {
+  ply: number;
+  color: 'w' | 'b';
+  uci: string;
+  san: string;
+  fen: string;
+  reasoning?: string;
+  confidence?: number;
+  corrections?: number;
+  // How the model wrote the move (uci, san, ...), absent for engines
+  notation?: MoveNotation;
+  // Tool mode only
+  toolCalls?: ToolCallRecord[];
+  latencyMs: number;
+  // Mover's remaining clock after the move, with a running clock only
+  clockMs?: number;
+  usage?: TokenUsage;
+  timestamp: string;
+}
+
+export type MatchStatus = 'running' | 'finished' | 'aborted';
+
+export interface MatchState {
+  id: string;
+  white: MatchPlayer;
+  black: MatchPlayer;
+  options: Required<NumericMatchOptions> & Pick<MatchOptions, 'timeControl'>;
+  status: MatchStatus;
+  startFen: string;
+  fen: string;
+  moves: MatchMove[];
+  // Side currently waiting on its provider, null between moves and after the game
+  thinking: 'w' | 'b' | null;
+  // Time each side has at the start of its next turn, with a time control only
+  clocks?: Clocks;
+  // When the side in thinking started its turn, so spectators can run its clock
+  turnStartedAt?: string;
+  invalidAttempts: { w: number; b: number };
+  // Tokens and estimated cost per side, including rejected answers
+  usage: GameUsage;
+  result?: '1-0' | '0-1' | '1/2-1/2' | '*';
+  termination?: string;
+  // Side that lost by running out of invalid move attempts
+  forfeitedBy?: 'w' | 'b';
+  // Stopped because a spending budget ran out, see SpendingLimits
+  budgetExceeded?: boolean;
+  tournamentId?: string;
+  lastError?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface MatchContext {
+  // Validated FEN to start from, see resolveStartPosition
+  startFen?: string;
+  // Tournament the match is played in
+  tournamentId?: string;
+}
+
+// match_error rather than error, which EventSource reserves for connection failures
+export type MatchEventType = 'snapshot' | 'thinking' | 'move' | 'reasoning' | 'invalid_move' | 'game_over' | 'match_error';
+
+export interface MatchEvent {
+  type: MatchEventType;
+  data: Record<string, unknown>;
+}
+
+const DEFAULT_OPTIONS: Required<NumericMatchOptions> = {
+  maxInvalidMoves: 3,
+  moveDelayMs: 500,
+  maxPlies: 500,
+};
+
+const PIECE_NAMES: Record<string, string> = {
+  p: 'Pawn', n: 'Knight', b: 'Bishop', r: 'Rook', q: 'Queen', k: 'King',
+};
+
+// Same request shape the browser builds in useChessGame.doAIMove
+function buildMoveRequest(game: Chess, startFen: string, player: MatchPlayer, moves: MatchMove[], clock?: MoveClock): AIMoveRequest {
+  const verboseMoves = game.moves({ verbose: true });
+  const pieceMovesMap = new Map<string, PieceMoves>();
+
+  for (const move of verboseMoves) {
+    const key = `${move.piece}_${move.from}`;
+    if (!pieceMovesMap.has(key)) {
+      pieceMovesMap.set(key, { piece: PIECE_NAMES[move.piece] || move.piece, square: move.from, moves: [] });
+    }
+    pieceMovesMap.get(key)!.moves.push(move.lan);
+  }
+
+  return {
+    fen: game.fen(),
+    moveHistory: moves.map(m => m.uci),
+    startFen,
+    moveHistorySan: moves.map(m => m.san),
+    playerColor: game.turn(),
+    model: player.model,
+    temperature: player.temperature,
+    prompt: player.prompt,
+    encoding: player.encoding,
+    conversation: player.conversation,
+    tools: player.tools,
+    legalMoves: verboseMoves.map(m => m.lan),
+    piecesMoves: Array.from(pieceMovesMap.values()),
+    clock,
+  };
+}
+
+// Keep only well-formed numeric options so request bodies cannot inject odd values;
+// a malformed time control is rejected rather than silently dropped
+function sanitizeOptions(options: MatchOptions): MatchOptions {
+  const sanitized: MatchOptions = {};
+  for (const key of Object.keys(DEFAULT_OPTIONS) as (keyof NumericMatchOptions)[]) {
+    const value = options[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      sanitized[key] = value;
+    }
+  }
+  const timeControl = resolveTimeControl(options.timeControl);
+  if (timeControl) sanitized.timeControl = timeControl;
+  return sanitized;
+}
+
+// Settles with the promise, or rejects as soon as the signal aborts
+function withAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Error('Move request aborted'));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Resolves after ms, or early when the signal aborts
+function pause(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+function colorName(color: 'w' | 'b'): string {
+  return color === 'w' ? 'White' : 'Black';
+}
+
+// Result and termination reason of a finished position, or null while the game goes on
+export function getGameOutcome(game: Chess): { result: '1-0' | '0-1' | '1/2-1/2'; termination: string } | null {
+  if (game.isCheckmate()) {
+    const winner = game.turn() === 'w' ? 'b' : 'w';
+    return { result: winner === 'w' ? '1-0' : '0-1', termination: `${colorName(winner)} wins by checkmate` };
+  }
+  if (game.isStalemate()) return { result: '1/2-1/2', termination: 'Stalemate' };
+  if (game.isThreefoldRepetition()) return { result: '1/2-1/2', termination: 'Draw by repetition' };
+  if (game.isInsufficientMaterial()) return { result: '1/2-1/2', termination: 'Insufficient material' };
+  if (game.isDraw()) return { result: '1/2-1/2', termination: 'Draw by fifty-move rule' };
+  return null;
+}
+
+function toStoredGame(state: MatchState): StoredGame {
+  return {
+    id: state.id,
+    source: 'match',
+    white: state.white,
+    black: state.black,
+    startFen: state.startFen,
+    moves: state.moves,
+    status: state.status,
+    result: state.result || '*',
+    termination: state.termination,
+    usage: state.usage,
+    startedAt: state.startedAt,
+    finishedAt: state.finishedAt,
+    metadata: {
+      options: state.options,
+      ...(state.tournamentId ? { tournamentId: state.tournamentId } : {}),
+      ...(state.forfeitedBy ? { forfeitedBy: state.forfeitedBy } : {}),
+    },
+  };
+}
+
+class Match {
+  state: MatchState;
+  private game: Chess;
+  private aiService: AIService;
+  private store?: GameStore;
+  private aborted = false;
+  // Cancels the provider call of the side to move
+  private turnController: AbortController | null = null;
+  private events = new EventEmitter();
+
+  constructor(id: string, white: MatchPlayer, black: MatchPlayer, options: MatchOptions, context: MatchContext, aiService: AIService, store?: GameStore) {
+    this.aiService = aiService;
+    this.store = store;
+    this.game = new Chess(context.startFen);
+    const resolved = { ...DEFAULT_OPTIONS, ...sanitizeOptions(options) };
+    this.state = {
+      id,
+      white,
+      black,
+      options: resolved,
+      status: 'running',
+      startFen: this.game.fen(),
+      fen: this.game.fen(),
+      moves: [],
+      thinking: null,
+      clocks: resolved.timeControl && initialClocks(resolved.timeControl),
+      invalidAttempts: { w: 0, b: 0 },
+      usage: {},
+      tournamentId: context.tournamentId,
+      startedAt: new Date().toISOString(),
+    };
+    // Every spectator adds a listener
+    this.events.setMaxListeners(0);
+  }
+
+  subscribe(listener: (event: MatchEvent) => void): () => void {
+    this.events.on('event', listener);
+    return () => {
+      this.events.off('event', listener);
+    };
+  }
+
+  private publish(type: MatchEventType, data: Record<string, unknown>): void {
+    this.events.emit('event', { type, data });
+  }
+
+  // Save after every move so a finished or interrupted match is never lost
+  persist(): void {
+    this.store?.save(toStoredGame(this.state)).catch(error => {
+      console.error(`❌ Failed to store match ${this.state.id}:`, error);
+    });
+  }
+
+  abort(): void {
+    if (this.state.status !== 'running') return;
+    this.aborted = true;
+    this.turnController?.abort();
+    this.finish('aborted', '*', 'Aborted');
+  }
+
+  async run(): Promise<void> {
+    try {
+      while (!this.aborted && !this.checkGameOver()) {
+        await this.playTurn();
+        if (this.state.options.moveDelayMs > 0 && !this.aborted) {
+          await new Promise(resolve => setTimeout(resolve, this.state.options.moveDelayMs));
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Match ${this.state.id} crashed:`, errorMessage);
+      this.state.lastError = errorMessage;
+      this.finish('aborted', '*', `Server error: ${errorMessage}`);
+    }
+  }
+
+  private async playTurn(): Promise<void> {
+    const color = this.game.turn();
+    const player = color === 'w' ? this.state.white : this.state.black;
+    const budgetMs = this.state.clocks ? this.state.clocks[color] : null;
+    const controller = new AbortController();
+    this.turnController = controller;
+    const request: AIMoveRequest = {
+      ...buildMoveRequest(this.game, this.state.startFen, player, this.state.moves, this.moveClock(color)),
+      gameId: this.state.id,
+      signal: controller.signal,
+    };
+
+    this.state.thinking = color;
+    const startedAt = Date.now();
+    this.state.turnStartedAt = new Date(startedAt).toISOString();
+    let failure: string | null = null;
+    let retryAfterMs: number | null = null;
+    this.publish('thinking', {
+      color,
+      provider: player.provider,
+      model: player.model,
+      ply: this.state.moves.length + 1,
+      fen: this.game.fen(),
+      clocks: this.state.clocks,
+      timestamp: this.state.turnStartedAt,
+    });
+
+    // The flag falls on time even if the provider ignores the abort signal
+    const timer = budgetMs !== null ? setTimeout(() => controller.abort(), budgetMs) : undefined;
+
+    try {
+      const response = await withAbort(this.aiService.getMove(player.provider, request), controller.signal);
+      if (this.aborted) return;
+      const latencyMs = Date.now() - startedAt;
+      this.state.usage[color] = addUsage(this.state.usage[color], response.usage);
+      if (budgetMs !== null && latencyMs >= budgetMs) {
+        this.flagFall(color);
+        return;
+      }
+
+      const move = response.legal === false ? null : this.tryMove(response.move);
+      if (move) {
+        this.state.invalidAttempts[color] = 0;
+        this.chargeClock(color, latencyMs, true);
+        const record: MatchMove = {
+          ply: this.state.moves.length + 1,
+          color,
+          uci: move.lan,
+          san: move.san,
+          fen: this.game.fen(),
+          reasoning: response.reasoning,
+          confidence: response.confidence,
+          corrections: response.corrections,
+          notation: response.notation,
+          toolCalls: response.toolCalls,
+          latencyMs,
+          clockMs: this.state.options.timeControl?.type === 'clock' ? this.state.clocks?.[color] : undefined,
+          usage: response.usage,
+          timestamp: new Date().toISOString(),
+        };
+        this.state.moves.push(record);
+        this.state.fen = this.game.fen();
+        this.persist();
+        this.publish('move', { ...record, clocks: this.state.clocks, gameUsage: this.state.usage });
+        if (record.reasoning) {
+          this.publish('reasoning', { ply: record.ply, color, reasoning: record.reasoning });
+        }
+        return;
+      }
+      failure = `invalid move ${response.move}`;
+      this.chargeClock(color, latencyMs, false);
+      this.publish('invalid_move', {
+        color,
+        move: response.move,
+        fen: this.game.fen(),
+        reasoning: response.reasoning,
+        attempts: this.state.invalidAttempts[color] + 1,
+        maxInvalidMoves: this.state.options.maxInvalidMoves,
+        latencyMs,
+        clocks: this.state.clocks,
+        gameUsage: this.state.usage,
+      });
+    } catch (error) {
+      if (this.aborted) return;
+      if (controller.signal.aborted) {
+        this.flagFall(color);
+        return;
+      }
+      // Our own limits are not the player's fault: no clock time or invalid attempt is charged
+      if (error instanceof LimitExceededError) {
+        this.state.lastError = error.message;
+        if (error.code === 'BUDGET_EXCEEDED') {
+          this.state.budgetExceeded = true;
+          this.finish('aborted', '*', `Budget exceeded: ${error.message}`);
+          return;
+        }
+        retryAfterMs = error.retryAfterMs ?? 1000;
+        this.publish('match_error', {
+          color,
+          message: error.message,
+          code: error.code,
+          retryAfterMs,
+          clocks: this.state.clocks,
+        });
+      } else {
+        failure = error instanceof Error ? error.message : 'Unknown error';
+        this.state.lastError = failure;
+        this.chargeClock(color, Date.now() - startedAt, false);
+        this.publish('match_error', {
+          color,
+          message: failure,
+          attempts: this.state.invalidAttempts[color] + 1,
+          maxInvalidMoves: this.state.options.maxInvalidMoves,
+          latencyMs: Date.now() - startedAt,
+          clocks: this.state.clocks,
+        });
+      }
+    } finally {
+      clearTimeout(timer);
+      this.turnController = null;
+      this.state.thinking = null;
+      this.state.turnStartedAt = undefined;
+    }
+
+    if (retryAfterMs !== null) {
+      console.log(`⏸️ Match ${this.state.id}: ${colorName(color)} rate limited, retrying in ${Math.ceil(retryAfterMs / 1000)}s`);
+      const waiting = new AbortController();
+      this.turnController = waiting;
+      await pause(retryAfterMs, waiting.signal);
+      this.turnController = null;
+      return;
+    }
+
+    if (this.state.clocks && this.state.clocks[color] <= 0) {
+      this.flagFall(color);
+      return;
+    }
+
+    this.state.invalidAttempts[color] += 1;
+    const attempts = this.state.invalidAttempts[color];
+    const max = this.state.options.maxInvalidMoves;
+    console.log(`⚠️ Match ${this.state.id}: ${colorName(color)} failed (${attempts}/${max}): ${failure}`);
+
+    if (attempts >= max) {
+      this.state.forfeitedBy = color;
+      this.finish('finished', color === 'w' ? '0-1' : '1-0', `${colorName(color)} forfeits after ${max} invalid moves`);
+    }
+  }
+
+  // What the side to move is told about its time, undefined without a time control
+  private moveClock(color: 'w' | 'b'): MoveClock | undefined {
+    const timeControl = this.state.options.timeControl;
+    const clocks = this.state.clocks;
+    if (!timeControl || !clocks) return undefined;
+    if (timeControl.type === 'per-move') return { remainingMs: clocks[color], perMove: true };
+    return {
+      remainingMs: clocks[color],
+      opponentMs: clocks[color === 'w' ? 'b' : 'w'],
+      incrementMs: timeControl.incrementSeconds * 1000,
+    };
+  }
+
+  private chargeClock(color: 'w' | 'b', elapsedMs: number, moved: boolean): void {
+    const timeControl = this.state.options.timeControl;
+    if (!timeControl || !this.state.clocks) return;
+    this.state.clocks = spendClock(timeControl, this.state.clocks, color, elapsedMs, moved);
+  }
+
+  // Loss on time, or a draw when the opponent has no mating material left
+  private flagFall(color: 'w' | 'b'): void {
+    const opponent = color === 'w' ? 'b' : 'w';
+    if (this.state.clocks && this.state.options.timeControl?.type === 'clock') {
+      this.state.clocks = { ...this.state.clocks, [color]: 0 };
+    }
+    console.log(`⏰ Match ${this.state.id}: ${colorName(color)} ran out of time`);
+    if (hasMatingMaterial(this.game, opponent)) {
+      this.finish('finished', opponent === 'w' ? '1-0' : '0-1', `${colorName(opponent)} wins on time`);
+    } else {
+      this.finish('finished', '1/2-1/2', `${colorName(color)} ran out of time, draw by insufficient material`);
+    }
+  }
+
+  private tryMove(uci: string) {
+    try {
+      return this.game.move({ from: uci.substring(0, 2), to: uci.substring(2, 4), promotion: uci[4] });
+    } catch {
+      return null;
+    }
+  }
+
+  // Finishes the match when the position is terminal; returns true once the match is over
+  private checkGameOver(): boolean {
+    if (this.state.status !== 'running') return true;
+
+    const outcome = getGameOutcome(this.game);
+    if (outcome) {
+      this.finish('finished', outcome.result, outcome.termination);
+    } else if (this.state.moves.length >= this.state.options.maxPlies) {
+      // A safety cutoff, not a draw on the board: left unscored so it does not move ratings
+      this.finish('finished', '*', `Stopped after ${this.state.options.maxPlies} plies (unrated)`);
+    }
+
+    return this.state.status !== 'running';
+  }
+
+  private finish(status: MatchStatus, result: MatchState['result'], termination: string): void {
+    this.state.status = status;
+    this.state.result = result;
+    this.state.termination = termination;
+    this.state.thinking = null;
+    this.state.finishedAt = new Date().toISOString();
+    console.log(`🏁 Match ${this.state.id}: ${result} (${termination})`);
+    this.persist();
+    this.publish('game_over', {
+      status,
+      result,
+      termination,
+      fen: this.state.fen,
+      plies: this.state.moves.length,
+      clocks: this.state.clocks,
+      timestamp: this.state.finishedAt,
+    });
+  }
+}
+
+export class MatchRunner {
+  private matches = new Map<string, Match>();
+  private aiService: AIService;
+  private store?: GameStore;
+  private ratings?: RatingService;
+
+  constructor(aiService: AIService, store?: GameStore, ratings?: RatingService) {
+    this.aiService = aiService;
+    this.store = store;
+    this.ratings = ratings;
+  }
+
+  start(white: MatchPlayer, black: MatchPlayer, options: MatchOptions = {}, context: MatchContext = {}): MatchState {
+    for (const player of [white, black]) {
+      if (!this.aiService.getAvailableProviders().includes(player.provider)) {
+        throw new Error(`Provider ${player.provider} not available`);
+      }
+      if (player.prompt && !this.aiService.hasPromptTemplate(player.prompt)) {
+        throw new Error(`Unknown prompt template: ${player.prompt}`);
+      }
+      player.encoding = resolveEncoding(player.encoding);
+      player.conversation = resolveConversation(player.conversation);
+      player.tools = resolveToolOptions(player.tools);
+      if (player.tools && !this.aiService.supportsTools(player.provider)) {
+        throw new Error(`Provider ${player.provider} does not support tool mode`);
+      }
+      this.aiService.assertPriced(player.provider, player.model);
+    }
+
+    const id = `match_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const match = new Match(id, white, black, options, context, this.aiService, this.store);
+    this.matches.set(id, match);
+    match.persist();
+
+    console.log(`♟️ Match ${id}: ${white.provider}:${white.model || 'default'} vs ${black.provider}:${black.model || 'default'}`);
+    if (this.ratings) {
+      const unsubscribe = match.subscribe(event => {
+        if (event.type !== 'game_over') return;
+        unsubscribe();
+        this.rate(match.state);
+      });
+    }
+    match.run();
+    return match.state;
+  }
+
+  get(id: string): MatchState | undefined {
+    return this.matches.get(id)?.state;
+  }
+
+  // Aborted, unfinished and ply-capped games are not rated
+  private rate(state: MatchState): void {
+    if (!this.ratings || state.status !== 'finished' || !state.result || state.result === '*') return;
+    this.ratings.record({
+      gameId: state.id,
+      white: state.white,
+      black: state.black,
+      result: state.result,
+      termination: state.termination,
+      source: state.tournamentId ? 'tournament' : 'match',
+      playedAt: state.finishedAt || new Date().toISOString(),
+    }).catch(error => {
+      console.error(`❌ Failed to rate match ${state.id}:`, error);
+    });
+  }
+
+  list(): MatchState[] {
+    return Array.from(this.matches.values()).map(m => m.state);
+  }
+
+  // Listen to a match's live events; returns an unsubscribe function, or undefined for unknown ids
+  subscribe(id: string, listener: (event: MatchEvent) => void): (() => void) | undefined {
+    return this.matches.get(id)?.subscribe(listener);
+  }
+
+  // Resolves with the final state once the match is over
+  waitForFinish(id: string): Promise<MatchState> {
+    const match = this.matches.get(id);
+    if (!match) return Promise.reject(new Error(`Match ${id} not found`));
+    if (match.state.status !== 'running') return Promise.resolve(match.state);
+
+    return new Promise(resolve => {
+      const unsubscribe = match.subscribe(event => {
+        if (event.type !== 'game_over') return;
+        unsubscribe();
+        resolve(match.state);
+      });
+    });
+  }
+
+  abort(id: string): MatchState | undefined {
+    const match = this.matches.get(id);
+    if (!match) return undefined;
+    match.abort();
+    return match.state;
+  }
+}
@@ -0,0 +1,99 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Chess } from 'chess.js';
+import { AIMoveRequest } from './aiService';
+import { MockProvider } from './mockProvider';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+
+const moveRequest = (model: string, fields: Partial<AIMoveRequest> = {}): AIMoveRequest =>
+  ({ fen: START_FEN, moveHistory: [], playerColor: 'w', model, ...fields });
+
+const legalMoves = (fen: string) => new Chess(fen).moves({ verbose: true }).map(m => m.lan);
+
+test('every mock player is listed', async () => {
+  const provider = new MockProvider({ latencyMs: 10, script: ['e2e4'] });
+  await provider.loadModels();
+  assert.deepEqual(provider.models.map(m => m.id), ['mock/random', 'mock/illegal', 'mock/slow', 'mock/error', 'mock/script']);
+});
+
+test('mock/random picks from the legal moves by Math.random', async t => {
+  const provider = new MockProvider();
+  const random = t.mock.method(Math, 'random', () => 0);
+  assert.equal((await provider.getMove(moveRequest('mock/random'))).move, legalMoves(START_FEN)[0]);
+
+  random.mock.mockImplementation(() => 0.999);
+  const moves = legalMoves(AFTER_E4);
+  const response = await provider.getMove(moveRequest('mock/random', { fen: AFTER_E4, moveHistory: ['e2e4'], playerColor: 'b' }));
+  assert.equal(response.move, moves[moves.length - 1]);
+  assert.equal(response.reasoning, `Random pick out of ${moves.length} legal moves`);
+});
+
+test('mock answers report made-up usage at no cost', async () => {
+  const provider = new MockProvider();
+  const response = await provider.getMove(moveRequest('mock/random', { moveHistory: ['e2e4', 'e7e5'] }));
+  assert.deepEqual(response.usage, { promptTokens: 606, completionTokens: 40, reasoningTokens: 0, costUsd: 0 });
+});
+
+test('mock/illegal always answers a well-formed illegal move', async () => {
+  const provider = new MockProvider();
+  for (const fen of [START_FEN, AFTER_E4]) {
+    const { move } = await provider.getMove(moveRequest('mock/illegal', { fen }));
+    assert.match(move, /^[a-h][1-8][a-h][1-8]$/);
+    assert.ok(!legalMoves(fen).includes(move), `${move} is legal in ${fen}`);
+  }
+  assert.equal((await provider.getMove(moveRequest('mock/illegal'))).move, 'a1a2');
+});
+
+test('mock/slow answers after its latency', async () => {
+  mock.timers.enable({ apis: ['setTimeout'] });
+  try {
+    const provider = new MockProvider({ latencyMs: 5000 });
+    let settled = false;
+    const move = provider.getMove(moveRequest('mock/slow')).then(response => {
+      settled = true;
+      return response;
+    });
+    mock.timers.tick(4999);
+    await Promise.resolve();
+    assert.equal(settled, false);
+    mock.timers.tick(1);
+    assert.ok(legalMoves(START_FEN).includes((await move).move));
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('aborting mock/slow rejects before the latency is up', async () => {
+  const provider = new MockProvider({ latencyMs: 60000 });
+  const controller = new AbortController();
+  const move = provider.getMove(moveRequest('mock/slow', { signal: controller.signal }));
+  controller.abort();
+  await assert.rejects(move, /Move request aborted/);
+});
+
+test('mock/error always throws', async () => {
+  const provider = new MockProvider();
+  await assert.rejects(provider.getMove(moveRequest('mock/error')), /Mock provider error/);
+});
+
+test('mock/script plays its moves by ply and fails past the end', async () => {
+  const provider = new MockProvider({ script: ['e2e4', 'e7e5'] });
+  assert.deepEqual(await provider.getMove(moveRequest('mock/script')), {
+    move: 'e2e4',
+    reasoning: 'Scripted move 1/2',
+    usage: { promptTokens: 600, completionTokens: 40, reasoningTokens: 0, costUsd: 0 },
+  });
+  const second = await provider.getMove(moveRequest('mock/script', { fen: AFTER_E4, moveHistory: ['e2e4'], playerColor: 'b' }));
+  assert.equal(second.move, 'e7e5');
+  await assert.rejects(
+    provider.getMove(moveRequest('mock/script', { moveHistory: ['e2e4', 'e7e5'] })),
+    /Mock script has no move for ply 3/
+  );
+});
+
+test('unknown mock models are rejected', async () => {
+  const provider = new MockProvider();
+  await assert.rejects(provider.getMove(moveRequest('mock/nope')), /Unknown mock model: mock\/nope/);
+});
@@ -0,0 +1,118 @@
+import { Chess } from 'chess.js';
+import { AIProvider, AIMoveRequest, AIMoveResponse } from './aiService';
+import { SUBMIT_TOOL, ToolSession } from './chessTools';
+import { ModelPricing } from './usage';
+
+export interface MockProviderOptions {
+  // Delay for mock/slow, in milliseconds
+  latencyMs?: number;
+  // UCI moves played in order by mock/script, indexed by the number of moves already played
+  script?: string[];
+}
+
+const FILES = 'abcdefgh';
+
+export class MockProvider implements AIProvider {
+  name = 'mock';
+  models: { id: string; name: string }[] = [];
+  private latencyMs: number;
+  private script: string[];
+
+  constructor(options: MockProviderOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 3000;
+    this.script = options.script || [];
+  }
+
+  async loadModels(): Promise<void> {
+    this.models = [
+      { id: 'mock/random', name: 'Mock: random legal move' },
+      { id: 'mock/illegal', name: 'Mock: always illegal' },
+      { id: 'mock/slow', name: `Mock: random after ${this.latencyMs}ms` },
+      { id: 'mock/error', name: 'Mock: always throws' },
+      { id: 'mock/script', name: `Mock: scripted (${this.script.length} moves)` },
+    ];
+  }
+
+  async getMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    const response = await this.pickMove(request);
+    // Made-up but plausible token counts so usage reporting can be tried offline; mock moves are free
+    return {
+      ...response,
+      usage: { promptTokens: 600 + request.moveHistory.length * 3, completionTokens: 40, reasoningTokens: 0, costUsd: 0 },
+    };
+  }
+
+  // Tool mode offline: looks at its pick with the tools, then submits it
+  // Mock moves are free, which also lets them play under a budget
+  getPricing(): ModelPricing {
+    return { prompt: 0, completion: 0 };
+  }
+
+  async getToolMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    // The whole exchange stands for a single API request
+    await request.meter?.acquire();
+    const response = await this.getMove(request);
+    await request.meter?.record(response.usage);
+    const session = new ToolSession(request.fen, request.tools);
+    if (!session.exhausted) session.call('get_legal_moves', { square: response.move.slice(0, 2) });
+    if (!session.exhausted) session.call('make_hypothetical_move', { uci: response.move });
+    session.call(SUBMIT_TOOL, { uci: response.move, reasoning: response.reasoning });
+    return { ...response, ...session.submitted, toolCalls: session.calls };
+  }
+
+  private async pickMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    const game = new Chess(request.fen);
+
+    switch (request.model || 'mock/random') {
+      case 'mock/random':
+        return this.randomMove(game);
+      case 'mock/illegal':
+        return this.illegalMove(game);
+      case 'mock/slow':
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(resolve, this.latencyMs);
+          request.signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new Error('Move request aborted'));
+          }, { once: true });
+        });
+        return this.randomMove(game);
+      case 'mock/error':
+        throw new Error('Mock provider error');
+      case 'mock/script': {
+        const ply = request.moveHistory.length;
+        const move = this.script[ply];
+        if (!move) throw new Error(`Mock script has no move for ply ${ply + 1}`);
+        return { move, reasoning: `Scripted move ${ply + 1}/${this.script.length}` };
+      }
+      default:
+        throw new Error(`Unknown mock model: ${request.model}`);
+    }
+  }
+
+  private randomMove(game: Chess): AIMoveResponse {
+    const moves = game.moves({ verbose: true });
+    if (moves.length === 0) throw new Error('No legal moves available');
+    const move = moves[Math.floor(Math.random() * moves.length)];
+    return { move: move.lan, reasoning: `Random pick out of ${moves.length} legal moves` };
+  }
+
+  // First well-formed from/to pair that is not a legal move in the position
+  private illegalMove(game: Chess): AIMoveResponse {
+    const legal = new Set(game.moves({ verbose: true }).map(m => m.from + m.to));
+    for (const fromFile of FILES) {
+      for (let fromRank = 1; fromRank <= 8; fromRank++) {
+        for (const toFile of FILES) {
+          for (let toRank = 1; toRank <= 8; toRank++) {
+            const from = `${fromFile}${fromRank}`;
+            const to = `${toFile}${toRank}`;
+            if (from !== to && !legal.has(from + to)) {
+              return { move: from + to, reasoning: 'Deliberately illegal move' };
+            }
+          }
+        }
+      }
+    }
+    throw new Error('No illegal move found');
+  }
+}
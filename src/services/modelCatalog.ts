@@ -0,0 +1,64 @@
+import { ModelPricing } from './usage';
+
+// A model as listed by its provider; everything but id and name is only known for some providers
+export interface ModelInfo {
+  id: string;
+  name: string;
+  // Maximum prompt size in tokens
+  contextLength?: number;
+  pricing?: ModelPricing;
+  // Accepts a JSON schema response_format
+  structuredOutputs?: boolean;
+  // Produces reasoning tokens (thinking) before answering
+  reasoning?: boolean;
+  tools?: boolean;
+}
+
+export interface ModelFilter {
+  // Substring of the id or display name
+  query?: string;
+  // Id patterns, see matchesPattern; include keeps matches only, exclude drops them
+  include?: string[];
+  exclude?: string[];
+  structuredOutputs?: boolean;
+  reasoning?: boolean;
+  tools?: boolean;
+  // USD per million prompt tokens; models without pricing are dropped when set
+  maxPromptPrice?: number;
+  minContextLength?: number;
+  limit?: number;
+}
+
+// The model families the catalog used to be hardcoded to
+export const DEFAULT_INCLUDE = ['gemini', 'gpt', 'claude', 'deepseek'];
+
+// Case-insensitive; "*" matches any run of characters, a pattern without "*" matches anywhere in the id
+export function matchesPattern(id: string, pattern: string): boolean {
+  const lowerId = id.toLowerCase();
+  const lowerPattern = pattern.toLowerCase();
+  if (!lowerPattern.includes('*')) return lowerId.includes(lowerPattern);
+  const source = lowerPattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(lowerId);
+}
+
+export function filterModels(models: ModelInfo[], filter: ModelFilter): ModelInfo[] {
+  const query = filter.query?.toLowerCase();
+  const matches = models.filter(model => {
+    if (query && !model.id.toLowerCase().includes(query) && !model.name.toLowerCase().includes(query)) return false;
+    if (filter.include?.length && !filter.include.some(p => matchesPattern(model.id, p))) return false;
+    if (filter.exclude?.some(p => matchesPattern(model.id, p))) return false;
+    if (filter.structuredOutputs && !model.structuredOutputs) return false;
+    if (filter.reasoning && !model.reasoning) return false;
+    if (filter.tools && !model.tools) return false;
+    if (filter.maxPromptPrice !== undefined && (!model.pricing || model.pricing.prompt * 1e6 > filter.maxPromptPrice)) return false;
+    if (filter.minContextLength !== undefined && (model.contextLength ?? 0) < filter.minContextLength) return false;
+    return true;
+  });
+  return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+}
+
+// Comma-separated pattern list from an environment variable
+export function parsePatterns(raw: string | undefined): string[] | undefined {
+  if (raw === undefined) return undefined;
+  return raw.split(',').map(p => p.trim()).filter(Boolean);
+}
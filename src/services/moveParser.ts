@@ -0,0 +1,140 @@
+import { Chess, Move, Square } from 'chess.js';
+import type { AIMoveResponse } from './aiService';
+
+// How a model wrote its move: e2e4, Ng1-f3, Nf3, O-O, or separate from/to fields
+export type MoveNotation = 'uci' | 'lan' | 'san' | 'castling' | 'fields';
+
+interface ParsedMove {
+  // UCI when the move matches the position, otherwise the move as written so the model can be told why it is illegal
+  move: string;
+  notation: MoveNotation;
+  legal: boolean;
+}
+
+const CASTLING_PATTERN = /^([O0o])-?\1(-?\1)?$/;
+// Optional piece letter, two squares with an optional separator, optional promotion: e2e4, Ng1-f3, e7xd8=Q, e7e8(q)
+const COORDINATE_PATTERN = /^([KQRBNP])?([a-hA-H][1-8])[-x:]?([a-hA-H][1-8])(?:=|\()?([QRBNqrbn])?\)?$/;
+const SAN_PATTERN = /^([KQRBN])?([a-h])?([1-8])?x?([a-h][1-8])(=?[QRBNqrbn])?$/;
+const SQUARE_PATTERN = /[a-h][1-8]/g;
+
+export const isSquare = (value: unknown): value is Square => typeof value === 'string' && /^[a-h][1-8]$/.test(value);
+
+// Quotes, markdown, check marks, annotations and move numbers around a single move: "**12...Nf6+!**," -> "Nf6"
+function cleanMoveText(text: string): string {
+  return text
+    .trim()
+    .replace(/[×]/g, 'x')
+    .replace(/[‐‑–—]/g, '-')
+    .replace(/^[\s"'`*_([{]+/, '')
+    .replace(/[\s"'`*_)\]},;:.!?+#]+$/, '')
+    .replace(/^\d+\s*\.+\s*/, '');
+}
+
+function findLegal(legalMoves: Move[], from: string, to: string, promotion?: string): Move | undefined {
+  return legalMoves.find(m => m.from === from && m.to === to && (m.promotion || undefined) === promotion);
+}
+
+// Resolve one move in any supported notation against the position; null when the text is not a move at all
+export function parseMove(fen: string, text: string): ParsedMove | null {
+  const cleaned = cleanMoveText(text);
+  if (!cleaned) return null;
+  const game = new Chess(fen);
+  const legalMoves = game.moves({ verbose: true });
+
+  const castling = cleaned.match(CASTLING_PATTERN);
+  if (castling) {
+    const san = castling[2] ? 'O-O-O' : 'O-O';
+    const move = legalMoves.find(m => m.san.replace(/[+#]$/, '') === san);
+    return move ? { move: move.lan, notation: 'castling', legal: true } : { move: san, notation: 'castling', legal: false };
+  }
+
+  const coordinate = cleaned.match(COORDINATE_PATTERN);
+  if (coordinate) {
+    const from = coordinate[2].toLowerCase();
+    const to = coordinate[3].toLowerCase();
+    const promotion = coordinate[4]?.toLowerCase();
+    const uci = from + to + (promotion || '');
+    const notation = cleaned.toLowerCase() === uci ? 'uci' : 'lan';
+    return { move: uci, notation, legal: !!findLegal(legalMoves, from, to, promotion) };
+  }
+
+  if (SAN_PATTERN.test(cleaned)) {
+    try {
+      // Non-strict parsing also accepts over-disambiguated moves and a missing capture sign
+      const san = cleaned.replace(/([a-h][18])=?([QRBNqrbn])$/, (_, square, piece) => `${square}=${piece.toUpperCase()}`);
+      const move = game.move(san, { strict: false });
+      return { move: move.lan, notation: 'san', legal: true };
+    } catch {
+      return { move: cleaned, notation: 'san', legal: false };
+    }
+  }
+
+  return null;
+}
+
+// The first legal move among the candidates, else the first readable one
+function pickMove(candidates: (ParsedMove | null)[]): ParsedMove | null {
+  const readable = candidates.filter((c): c is ParsedMove => c !== null);
+  return readable.find(c => c.legal) || readable[0] || null;
+}
+
+// Separate from/to fields, tolerating piece letters and suffixes ("Ng1", "e8=Q+") and a whole move in either field
+function parseSquareFields(fen: string, parsed: any): ParsedMove | null {
+  const from = String(parsed.from ?? '').trim();
+  const to = String(parsed.to ?? '').trim();
+  if (!from) return null;
+  if (!to) return parseMove(fen, from);
+
+  const fromSquares = from.toLowerCase().match(SQUARE_PATTERN);
+  const toSquares = to.toLowerCase().match(SQUARE_PATTERN);
+  if (!fromSquares || !toSquares) return pickMove([parseMove(fen, from), parseMove(fen, to)]);
+
+  const promotionField = String(parsed.promotion ?? '').toLowerCase().trim()[0];
+  const promotion = promotionField && 'qrbn'.includes(promotionField)
+    ? promotionField
+    : to.match(/([QRBNqrbn])\W*$/)?.[1].toLowerCase();
+  const result = parseMove(fen, fromSquares[fromSquares.length - 1] + toSquares[0] + (promotion || ''));
+  return result && { ...result, notation: 'fields' };
+}
+
+// Normalize a structured {from, to, promotion, reasoning} answer (or {move}) into a UCI move
+export function parseMoveFields(parsed: any, fen: string): AIMoveResponse {
+  if (!parsed || typeof parsed !== 'object') throw new Error('Answer is not an object');
+  const moveField = parsed.move ?? parsed.uci ?? parsed.san;
+  const result = pickMove([
+    parseSquareFields(fen, parsed),
+    typeof moveField === 'string' ? parseMove(fen, moveField) : null,
+  ]);
+  if (!result) throw new Error(`No move found in answer: ${JSON.stringify(parsed).slice(0, 100)}`);
+  return { move: result.move, notation: result.notation, reasoning: parsed.reasoning };
+}
+
+// "Best move: Nf3", "I'll play e4", "Move: O-O"
+const ANSWER_MARKER = /\b(?:best move|final move|my move|answer|move|play)\b\s*(?:is|:|=|-)?\s*/gi;
+const TOKEN_SEPARATOR = /[\s,;"'`*()[\]{}<>|]+/;
+
+// Extract a move from free-form model output: embedded JSON first, then a move after an answer marker
+// such as "Best move:", then the last legal move mentioned anywhere
+export function parseMoveText(content: string, fen: string): AIMoveResponse {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    try {
+      return parseMoveFields(JSON.parse(jsonMatch[0]), fen);
+    } catch {
+      // Not valid JSON or no move in it, fall through to plain-text matching
+    }
+  }
+
+  const markers = Array.from(content.matchAll(ANSWER_MARKER)).reverse();
+  for (const marker of markers) {
+    const next = content.slice(marker.index! + marker[0].length).split(TOKEN_SEPARATOR).find(Boolean);
+    const parsed = next ? parseMove(fen, next) : null;
+    if (parsed) return { move: parsed.move, notation: parsed.notation, reasoning: content.trim() };
+  }
+
+  const candidates = content.split(TOKEN_SEPARATOR).map(token => parseMove(fen, token));
+  const lastLegal = candidates.filter(c => c?.legal).pop();
+  const parsed = lastLegal || pickMove(candidates);
+  if (!parsed) throw new Error(`No move found in response: ${content.slice(0, 100)}`);
+  return { move: parsed.move, notation: parsed.notation, reasoning: content.trim() };
+}
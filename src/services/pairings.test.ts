@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Pairing, SwissEntry, gauntletPairings, roundRobinPairings, swissPairings } from './pairings';
+
+const entry = (player: number, score: number, colors: ('w' | 'b')[] = [], opponents: number[] = [], hadBye = false): SwissEntry =>
+  ({ player, score, colors, opponents, hadBye });
+
+// "0-3" regardless of colors, sorted within each round
+const games = (pairings: Pairing[], round: number) =>
+  pairings
+    .filter(p => p.round === round)
+    .map(p => [p.white, p.black].sort((a, b) => a - b).join('-'))
+    .sort();
+
+const colorBalance = (pairings: Pairing[], player: number) =>
+  pairings.filter(p => p.white === player).length - pairings.filter(p => p.black === player).length;
+
+test('round-robin follows the Berger table for an even field', () => {
+  const pairings = roundRobinPairings(4, false);
+  assert.deepEqual(games(pairings, 1), ['0-3', '1-2']);
+  assert.deepEqual(games(pairings, 2), ['0-2', '1-3']);
+  assert.deepEqual(games(pairings, 3), ['0-1', '2-3']);
+  assert.equal(pairings.length, 6);
+  for (let player = 0; player < 4; player++) {
+    assert.ok(Math.abs(colorBalance(pairings, player)) <= 1, `player ${player} colors unbalanced`);
+  }
+});
+
+test('round-robin sits one player out per round for an odd field', () => {
+  const pairings = roundRobinPairings(5, false);
+  assert.equal(pairings.length, 10);
+  assert.deepEqual(games(pairings, 1), ['1-4', '2-3']);
+  assert.deepEqual(games(pairings, 5), ['0-1', '3-4']);
+
+  const sittingOut = [1, 2, 3, 4, 5].map(round => {
+    const playing = pairings.filter(p => p.round === round).flatMap(p => [p.white, p.black]);
+    return [0, 1, 2, 3, 4].filter(player => !playing.includes(player));
+  });
+  assert.deepEqual(sittingOut, [[0], [3], [1], [4], [2]]);
+
+  const met = new Set(pairings.map(p => [p.white, p.black].sort().join('-')));
+  assert.equal(met.size, 10);
+});
+
+test('double round-robin repeats the cycle with colors swapped', () => {
+  const single = roundRobinPairings(4, false);
+  const double = roundRobinPairings(4);
+  assert.equal(double.length, 12);
+  assert.deepEqual(double.slice(0, 6), single);
+  assert.deepEqual(double.slice(6), single.map(p => ({ round: p.round + 3, white: p.black, black: p.white })));
+});
+
+test('round-robin needs two players', () => {
+  assert.deepEqual(roundRobinPairings(1), []);
+});
+
+test('gauntlet pits the challenger against everyone, alternating colors', () => {
+  assert.deepEqual(gauntletPairings(3, 2), [
+    { round: 1, white: 0, black: 1 },
+    { round: 1, white: 2, black: 0 },
+    { round: 2, white: 1, black: 0 },
+    { round: 2, white: 0, black: 2 },
+  ]);
+});
+
+test('swiss first round pairs the top half against the bottom half', () => {
+  const round = swissPairings([entry(0, 0), entry(1, 0), entry(2, 0), entry(3, 0)], 1);
+  assert.deepEqual(round, {
+    pairings: [
+      { round: 1, white: 0, black: 2 },
+      { round: 1, white: 1, black: 3 },
+    ],
+  });
+});
+
+test('swiss pairs within score groups and avoids repeats', () => {
+  const round = swissPairings([
+    entry(0, 1, ['w'], [2]),
+    entry(1, 1, ['w'], [3]),
+    entry(2, 0, ['b'], [0]),
+    entry(3, 0, ['b'], [1]),
+  ], 2);
+  assert.deepEqual(games(round!.pairings, 2), ['0-1', '2-3']);
+});
+
+test('swiss drops to the next score group rather than repeat a pairing', () => {
+  const round = swissPairings([
+    entry(0, 2, ['w', 'b'], [1, 2]),
+    entry(1, 2, ['b', 'w'], [0, 3]),
+    entry(2, 0, ['b', 'w'], [0, 3]),
+    entry(3, 0, ['w', 'b'], [1, 2]),
+  ], 3);
+  assert.deepEqual(games(round!.pairings, 3), ['0-3', '1-2']);
+});
+
+test('swiss gives white to the player owed it', () => {
+  const round = swissPairings([entry(0, 1, ['w'], [2]), entry(1, 1, ['b'], [3])], 2);
+  assert.deepEqual(round!.pairings, [{ round: 2, white: 1, black: 0 }]);
+
+  // Equal balance: whoever had black last time
+  const next = swissPairings([entry(0, 1, ['w', 'b'], [2, 3]), entry(1, 1, ['b', 'w'], [3, 2])], 3);
+  assert.deepEqual(next!.pairings, [{ round: 3, white: 0, black: 1 }]);
+});
+
+test('swiss gives the bye to the lowest ranked player without one', () => {
+  const round = swissPairings([
+    entry(0, 1, ['w'], [2]),
+    entry(1, 1, ['w'], [4]),
+    entry(2, 0, ['b'], [0]),
+    entry(3, 0, [], [], true),
+    entry(4, 0, ['b'], [1]),
+  ], 2);
+  // Player 3 ranks lowest but already sat out
+  assert.equal(round!.bye, 4);
+  assert.equal(round!.pairings.length, 2);
+  assert.ok(round!.pairings.every(p => p.white !== 4 && p.black !== 4));
+});
+
+test('swiss returns null when every pairing would be a repeat', () => {
+  assert.equal(swissPairings([entry(0, 1, ['w'], [1]), entry(1, 0, ['b'], [0])], 2), null);
+});
+
+// Late round where the bottom three have met everyone but each other, so one of them can only get a rematch
+const trappedField = (size: number) => {
+  const trapped = [size - 3, size - 2, size - 1];
+  const others = Array.from({ length: size - 3 }, (_, player) => player);
+  return [
+    ...others.map(player => entry(player, 5, [], trapped)),
+    ...trapped.map(player => entry(player, 0, [], others)),
+  ];
+};
+
+test('swiss settles an unpairable late round of 20 players without trying every pairing', () => {
+  const startedAt = Date.now();
+  assert.equal(swissPairings(trappedField(20), 9), null);
+  assert.ok(Date.now() - startedAt < 2000, 'pairing search took too long');
+});
+
+test('swiss falls back to rematches when the search runs too long', () => {
+  const field = trappedField(24);
+  const startedAt = Date.now();
+  const round = swissPairings(field, 9);
+  assert.ok(Date.now() - startedAt < 2000, 'pairing search took too long');
+
+  const paired = round!.pairings.flatMap(p => [p.white, p.black]).sort((a, b) => a - b);
+  assert.deepEqual(paired, field.map(e => e.player));
+  const rematches = round!.pairings.filter(p => field[p.white].opponents.includes(p.black));
+  assert.equal(rematches.length, 1);
+});
@@ -0,0 +1,203 @@
+// Pure pairing logic for tournaments; players are referred to by their index in the entry list
+
+export interface Pairing {
+  round: number;
+  white: number;
+  black: number;
+}
+
+// Circle method (Berger tables): everyone meets everyone once per cycle.
+// A double round-robin repeats the cycle with colors swapped.
+export function roundRobinPairings(playerCount: number, double = true): Pairing[] {
+  if (playerCount < 2) return [];
+
+  // An odd field gets a dummy entry; whoever draws it sits the round out
+  const size = playerCount % 2 === 0 ? playerCount : playerCount + 1;
+  const rounds = size - 1;
+  const ring = Array.from({ length: size }, (_, i) => i);
+  // Whites minus blacks so far, used to keep colors balanced
+  const balance = new Array(playerCount).fill(0);
+  const pairings: Pairing[] = [];
+
+  for (let round = 0; round < rounds; round++) {
+    for (let board = 0; board < size / 2; board++) {
+      let white = ring[board];
+      let black = ring[size - 1 - board];
+      if (white >= playerCount || black >= playerCount) continue;
+
+      // Whoever has had white more often takes black; ties alternate by round
+      if (balance[white] > balance[black] || (balance[white] === balance[black] && round % 2 === 1)) {
+        [white, black] = [black, white];
+      }
+      balance[white] += 1;
+      balance[black] -= 1;
+      pairings.push({ round: round + 1, white, black });
+    }
+    // Keep the first entry fixed and rotate the rest one step
+    ring.splice(1, 0, ring.pop()!);
+  }
+
+  if (!double) return pairings;
+  return [
+    ...pairings,
+    ...pairings.map(p => ({ round: p.round + rounds, white: p.black, black: p.white })),
+  ];
+}
+
+// Challenger (player 0) plays gamesPerOpponent games against every other player, alternating colors.
+// Round n holds the challenger's n-th game against each opponent.
+export function gauntletPairings(playerCount: number, gamesPerOpponent: number): Pairing[] {
+  const pairings: Pairing[] = [];
+  for (let game = 0; game < gamesPerOpponent; game++) {
+    for (let opponent = 1; opponent < playerCount; opponent++) {
+      // Odd opponents start with white so the challenger's colors stay balanced within a round
+      const challengerWhite = (game + opponent) % 2 === 1;
+      pairings.push({
+        round: game + 1,
+        white: challengerWhite ? 0 : opponent,
+        black: challengerWhite ? opponent : 0,
+      });
+    }
+  }
+  return pairings;
+}
+
+export interface SwissEntry {
+  player: number;
+  score: number;
+  // Colors played so far, oldest first
+  colors: ('w' | 'b')[];
+  opponents: number[];
+  hadBye: boolean;
+}
+
+export interface SwissRound {
+  pairings: Pairing[];
+  // Player sitting out the round, scored as a win
+  bye?: number;
+}
+
+const colorBalance = (entry: SwissEntry) =>
+  entry.colors.reduce((sum, c) => sum + (c === 'w' ? 1 : -1), 0);
+
+// White goes to whoever is owed it: fewer whites so far, then black last time, then the higher ranked
+function assignColors(a: SwissEntry, b: SwissEntry, round: number): Pairing {
+  const balanceA = colorBalance(a);
+  const balanceB = colorBalance(b);
+  let aWhite: boolean;
+  if (balanceA !== balanceB) {
+    aWhite = balanceA < balanceB;
+  } else {
+    const lastA = a.colors[a.colors.length - 1];
+    const lastB = b.colors[b.colors.length - 1];
+    aWhite = lastA !== lastB && lastA ? lastA === 'b' : round % 2 === 1;
+  }
+  return { round, white: aWhite ? a.player : b.player, black: aWhite ? b.player : a.player };
+}
+
+// Both players are due the same color
+function colorClash(a: SwissEntry, b: SwissEntry): boolean {
+  const balanceA = colorBalance(a);
+  const balanceB = colorBalance(b);
+  if (balanceA !== 0 && Math.sign(balanceA) === Math.sign(balanceB)) return true;
+  const lastA = a.colors[a.colors.length - 1];
+  return balanceA === 0 && balanceB === 0 && lastA !== undefined && lastA === b.colors[b.colors.length - 1];
+}
+
+// Opponents tried before Swiss stops looking for a pairing without repeats; failed player sets are
+// remembered, but a large field in the late rounds can still have too many to search
+const MAX_PAIRING_STEPS = 100000;
+
+class PairingBudgetExceeded extends Error {}
+
+// State shared by every attempt to pair one round
+class PairingSearch {
+  steps = 0;
+  // Players (in ranked order) already shown to have no pairing without repeats
+  private failed = new Set<string>();
+
+  static key(ranked: SwissEntry[]): string {
+    return ranked.map(e => e.player).join(',');
+  }
+
+  hasFailed(ranked: SwissEntry[]): boolean {
+    return this.failed.has(PairingSearch.key(ranked));
+  }
+
+  markFailed(ranked: SwissEntry[]): void {
+    this.failed.add(PairingSearch.key(ranked));
+  }
+
+  step(): void {
+    if (++this.steps > MAX_PAIRING_STEPS) throw new PairingBudgetExceeded();
+  }
+}
+
+// Pair a ranked list without repeats: the top player tries opponents from its own score group first,
+// avoiding color clashes, starting half a group down (top half meets bottom half), and backtracks
+// when the rest cannot be paired. Without a search, rematches are allowed but taken last, which
+// always pairs an even list.
+function pairRanked(ranked: SwissEntry[], search?: PairingSearch): [SwissEntry, SwissEntry][] | null {
+  if (ranked.length === 0) return [];
+  if (search?.hasFailed(ranked)) return null;
+
+  const [top, ...rest] = ranked;
+  const groupSize = rest.filter(e => e.score === top.score).length + 1;
+  const ideal = Math.floor(groupSize / 2) - 1;
+  const repeat = (entry: SwissEntry) => top.opponents.includes(entry.player);
+  const candidates = rest
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => !search || !repeat(entry))
+    .sort((x, y) =>
+      Number(repeat(x.entry)) - Number(repeat(y.entry)) ||
+      Math.abs(top.score - x.entry.score) - Math.abs(top.score - y.entry.score) ||
+      Number(colorClash(top, x.entry)) - Number(colorClash(top, y.entry)) ||
+      Math.abs(x.index - ideal) - Math.abs(y.index - ideal) ||
+      x.index - y.index
+    );
+
+  for (const { entry, index } of candidates) {
+    search?.step();
+    const remaining = [...rest.slice(0, index), ...rest.slice(index + 1)];
+    const paired = pairRanked(remaining, search);
+    if (paired) return [[top, entry], ...paired];
+  }
+  search?.markFailed(ranked);
+  return null;
+}
+
+// Simplified Dutch-system Swiss round: rank by score (ties by seed), give an odd field's bye to the
+// lowest ranked player without one, and pair score groups top half against bottom half with no repeats.
+// Returns null when no pairing without repeats exists; when the search for one runs too long the
+// round is paired greedily instead, rematches taken only when nobody else is left.
+export function swissPairings(entries: SwissEntry[], round: number): SwissRound | null {
+  const ranked = [...entries].sort((a, b) => b.score - a.score || a.player - b.player);
+  const search = new PairingSearch();
+
+  try {
+    if (ranked.length % 2 === 0) {
+      const paired = pairRanked(ranked, search);
+      return paired && { pairings: paired.map(([a, b]) => assignColors(a, b, round)) };
+    }
+
+    // Try bye candidates from the bottom up until the rest can be paired
+    for (let i = ranked.length - 1; i >= 0; i--) {
+      if (ranked[i].hadBye) continue;
+      const paired = pairRanked([...ranked.slice(0, i), ...ranked.slice(i + 1)], search);
+      if (paired) {
+        return { pairings: paired.map(([a, b]) => assignColors(a, b, round)), bye: ranked[i].player };
+      }
+    }
+    return null;
+  } catch (error) {
+    if (!(error instanceof PairingBudgetExceeded)) throw error;
+  }
+
+  const byeIndex = ranked.length % 2 === 0 ? -1 : ranked.map(e => e.hadBye).lastIndexOf(false);
+  const rest = byeIndex < 0 ? ranked : [...ranked.slice(0, byeIndex), ...ranked.slice(byeIndex + 1)];
+  const paired = pairRanked(rest)!;
+  return {
+    pairings: paired.map(([a, b]) => assignColors(a, b, round)),
+    ...(byeIndex >= 0 && { bye: ranked[byeIndex].player }),
+  };
+}
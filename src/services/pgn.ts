@@ -0,0 +1,160 @@
+import { createHash } from 'crypto';
+import { Chess, validateFen } from 'chess.js';
+import { StoredGame, StoredPlayer } from './gameStore';
+import { TimeControl, formatClock, timeControlTag } from './timeControl';
+import { encodingTag } from './boardEncodings';
+import { DEFAULT_MAX_TOOL_CALLS } from './chessTools';
+
+// PGN comments end at the first '}', so strip braces and collapse newlines
+function sanitizeComment(text: string): string {
+  return text.replace(/[{}]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function playerName(player: StoredPlayer): string {
+  return player.model || player.provider;
+}
+
+function pgnDate(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '????.??.??';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}`;
+}
+
+function moveComment(move: StoredGame['moves'][number]): string | null {
+  const parts: string[] = [];
+  if (move.reasoning) parts.push(sanitizeComment(move.reasoning));
+  if (move.latencyMs !== undefined) parts.push(`latency ${move.latencyMs}ms`);
+  if (move.corrections) parts.push(`${move.corrections} correction${move.corrections === 1 ? '' : 's'}`);
+  if (move.clockMs !== undefined) parts.push(`[%clk ${formatClock(move.clockMs)}]`);
+  return parts.length > 0 ? parts.join(' | ') : null;
+}
+
+// Seven Tag Roster plus provider/temperature tags, with each move's reasoning and latency as comments
+export function gameToPgn(game: StoredGame): string {
+  const chess = new Chess(game.startFen);
+
+  for (const move of game.moves) {
+    try {
+      chess.move({ from: move.uci.substring(0, 2), to: move.uci.substring(2, 4), promotion: move.uci[4] });
+    } catch {
+      throw new Error(`Stored move ${move.ply} (${move.uci}) is not legal`);
+    }
+    const comment = moveComment(move);
+    if (comment) chess.setComment(comment);
+  }
+
+  chess.setHeader('Event', game.source === 'match' ? 'AI Chess Arena match' : 'AI Chess Arena game');
+  chess.setHeader('Site', 'AI Chess Arena');
+  chess.setHeader('Date', pgnDate(game.startedAt));
+  chess.setHeader('Round', '-');
+  chess.setHeader('White', playerName(game.white));
+  chess.setHeader('Black', playerName(game.black));
+  chess.setHeader('Result', game.result);
+  if (game.termination) chess.setHeader('Termination', game.termination);
+  chess.setHeader('WhiteProvider', game.white.provider);
+  chess.setHeader('BlackProvider', game.black.provider);
+  if (game.white.temperature !== undefined) chess.setHeader('WhiteTemperature', String(game.white.temperature));
+  if (game.black.temperature !== undefined) chess.setHeader('BlackTemperature', String(game.black.temperature));
+  if (game.white.prompt) chess.setHeader('WhitePrompt', game.white.prompt);
+  if (game.black.prompt) chess.setHeader('BlackPrompt', game.black.prompt);
+  if (game.white.encoding) chess.setHeader('WhiteEncoding', encodingTag(game.white.encoding));
+  if (game.black.encoding) chess.setHeader('BlackEncoding', encodingTag(game.black.encoding));
+  // Tool mode, with the cap on tool calls per move
+  if (game.white.tools) chess.setHeader('WhiteTools', String(game.white.tools.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS));
+  if (game.black.tools) chess.setHeader('BlackTools', String(game.black.tools.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS));
+  const timeControl = (game.metadata?.options as { timeControl?: TimeControl } | undefined)?.timeControl;
+  if (timeControl) chess.setHeader('TimeControl', timeControlTag(timeControl));
+  chess.setHeader('GameId', game.id);
+
+  // chess.js adds SetUp/FEN for custom start positions but skips the result token when there are no moves
+  const pgn = chess.pgn({ maxWidth: 80 }).trim();
+  if (pgn.endsWith(game.result)) return `${pgn}\n`;
+  return pgn.endsWith(']') ? `${pgn}\n\n${game.result}\n` : `${pgn} ${game.result}\n`;
+}
+
+export interface StartPosition {
+  fen?: string;
+  pgn?: string;
+  // Half-moves of the PGN to play before starting; defaults to the whole game
+  ply?: number;
+}
+
+// FEN a new game starts from: a FEN as given, or a position reached in an imported PGN
+export function resolveStartPosition(start: StartPosition): string {
+  let fen: string;
+
+  if (start.pgn) {
+    const imported = new Chess();
+    try {
+      imported.loadPgn(start.pgn);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Invalid PGN: ${errorMessage}`);
+    }
+
+    const moves = imported.history({ verbose: true });
+    const ply = start.ply ?? moves.length;
+    if (!Number.isInteger(ply) || ply < 0 || ply > moves.length) {
+      throw new Error(`Ply must be between 0 and ${moves.length}`);
+    }
+    fen = ply === 0 ? (moves[0]?.before ?? imported.fen()) : moves[ply - 1].after;
+  } else if (start.fen) {
+    fen = start.fen.trim();
+    const validation = validateFen(fen);
+    if (!validation.ok) {
+      throw new Error(validation.error || 'Invalid FEN');
+    }
+  } else {
+    return new Chess().fen();
+  }
+
+  let game: Chess;
+  try {
+    game = new Chess(fen);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid position: ${errorMessage}`);
+  }
+  if (game.isGameOver()) {
+    throw new Error('The start position is already game over');
+  }
+  return game.fen();
+}
+
+export interface PgnGameHeaders {
+  headers: Record<string, string>;
+  // Stable id derived from the game text, so importing the same file twice is harmless
+  digest: string;
+}
+
+// Split a PGN file into its games and read each game's tag pairs
+export function readPgnHeaders(text: string): PgnGameHeaders[] {
+  const games: string[][] = [];
+  let current: string[] = [];
+  let inMovetext = false;
+
+  // A tag line after movetext starts the next game
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const isTag = line.trim().startsWith('[');
+    if (isTag && inMovetext) {
+      games.push(current);
+      current = [];
+      inMovetext = false;
+    }
+    if (!isTag && line.trim()) inMovetext = true;
+    current.push(line);
+  }
+  games.push(current);
+
+  return games
+    .map(lines => lines.join('\n').trim())
+    .filter(game => game.length > 0)
+    .map(game => {
+      const headers: Record<string, string> = {};
+      for (const match of game.matchAll(/^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]\s*$/gm)) {
+        headers[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+      }
+      return { headers, digest: createHash('sha1').update(game.replace(/\s+/g, ' ')).digest('hex').slice(0, 16) };
+    });
+}
@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Chess } from 'chess.js';
+import type { AIMoveRequest, MoveClock } from './aiService';
+import { DEFAULT_ENCODING, diagram, encodeMoves, encodePosition, materialSummary, pieceList, threatSummary } from './boardEncodings';
+
+export const DEFAULT_PROMPT = 'default';
+
+// A template file holds optional "# description" lines, then a [system] and a [user] section
+export interface PromptTemplate {
+  name: string;
+  description?: string;
+  system: string;
+  user: string;
+}
+
+export interface RenderedPrompt {
+  // Template the prompt was rendered from, recorded with the game
+  template: string;
+  system: string;
+  user: string;
+}
+
+// Variables available to templates as {{name}}
+export const PROMPT_VARIABLES: Record<string, string> = {
+  side: 'Side to move: White or Black',
+  opponent: 'The other side',
+  fen: 'Position as FEN',
+  position: "The board in the player's encoding (diagram or piece list, threats, material)",
+  moves: "Legal moves in the player's encoding (by piece, UCI or SAN)",
+  board: 'ASCII diagram, White at the bottom',
+  threats: 'Attacked pieces of both sides and their defenders',
+  material: 'Material count and balance',
+  pieces: 'Every piece and its square',
+  pieceMoves: 'Legal moves grouped by piece, one piece per line',
+  legalMoves: 'Legal moves in UCI',
+  legalMovesSan: 'Legal moves in SAN',
+  historyUci: 'Moves played so far in UCI',
+  historySan: 'Moves played so far in SAN, numbered',
+  moveNumber: 'Full move number',
+  clock: 'Time left under the time control, empty without one',
+};
+
+function describeClock(clock: MoveClock): string {
+  const seconds = (ms: number) => `${Math.max(Math.round(ms / 1000), 0)}s`;
+  if (clock.perMove) {
+    return `TIME: You have ${seconds(clock.remainingMs)} for this move. If you run out of time you lose the game.`;
+  }
+  const increment = clock.incrementMs ? ` (+${seconds(clock.incrementMs)} per move)` : '';
+  const opponent = clock.opponentMs !== undefined ? `, your opponent has ${seconds(clock.opponentMs)}` : '';
+  return `TIME: You have ${seconds(clock.remainingMs)} left on your clock${increment}${opponent}. If your clock runs out you lose the game.`;
+}
+
+// "1. e4 e5 2. Nf3", or "12... Nf6 13. Bd3" when the game started from a position with Black to move
+function numberedHistory(moves: string[], fen: string): string {
+  const [, turn, , , , fullmove] = fen.split(' ');
+  // Rewind from the current position to the move number of the first listed move
+  let ply = (parseInt(fullmove, 10) - 1) * 2 + (turn === 'b' ? 1 : 0) - moves.length;
+  return moves.map((move, i) => {
+    const number = Math.floor(ply / 2) + 1;
+    const text = ply % 2 === 0 ? `${number}. ${move}` : (i === 0 ? `${number}... ${move}` : move);
+    ply++;
+    return text;
+  }).join(' ');
+}
+
+export function promptVariables(request: AIMoveRequest): Record<string, string> {
+  const game = new Chess(request.fen);
+  const side = request.playerColor === 'w' ? 'White' : 'Black';
+  const verboseMoves = game.moves({ verbose: true });
+
+  const encoding = request.encoding || DEFAULT_ENCODING;
+  const pieceMoves = request.piecesMoves && request.piecesMoves.length > 0
+    ? request.piecesMoves.map(pm => `${pm.piece} on ${pm.square}: ${pm.moves.join(', ')}`).join('\n')
+    : (request.legalMoves || verboseMoves.map(m => m.lan)).join(', ');
+
+  return {
+    side,
+    opponent: side === 'White' ? 'Black' : 'White',
+    fen: request.fen,
+    position: encodePosition(game, encoding),
+    moves: encodeMoves(game, encoding, request.piecesMoves),
+    board: diagram(game, 'w'),
+    threats: threatSummary(game),
+    material: materialSummary(game),
+    pieces: pieceList(game),
+    pieceMoves,
+    legalMoves: (request.legalMoves || verboseMoves.map(m => m.lan)).join(', '),
+    legalMovesSan: verboseMoves.map(m => m.san).join(', '),
+    historyUci: request.moveHistory.length > 0 ? request.moveHistory.join(', ') : 'Game start',
+    historySan: request.moveHistorySan && request.moveHistorySan.length > 0
+      ? numberedHistory(request.moveHistorySan, request.fen)
+      : (request.moveHistory.length > 0 ? request.moveHistory.join(', ') : 'Game start'),
+    moveNumber: request.fen.split(' ')[5] || '1',
+    clock: request.clock ? describeClock(request.clock) : '',
+  };
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function renderTemplate(text: string, variables: Record<string, string>): string {
+  return text
+    .replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '')
+    // Empty variables such as {{clock}} would leave blank runs behind
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function parseTemplate(name: string, source: string): PromptTemplate {
+  const description: string[] = [];
+  const sections: Record<string, string[]> = {};
+  let current: string[] | null = null;
+
+  for (const line of source.split(/\r?\n/)) {
+    const header = line.match(/^\[(system|user)\]\s*$/);
+    if (header) {
+      current = sections[header[1]] = [];
+    } else if (current) {
+      current.push(line);
+    } else if (line.startsWith('#')) {
+      description.push(line.replace(/^#\s*/, ''));
+    }
+  }
+
+  if (!sections.system) throw new Error('missing [system] section');
+  if (!sections.user) throw new Error('missing [user] section');
+  const system = sections.system.join('\n').trim();
+  const user = sections.user.join('\n').trim();
+  for (const [, variable] of `${system}\n${user}`.matchAll(VARIABLE_PATTERN)) {
+    if (!(variable in PROMPT_VARIABLES)) throw new Error(`unknown variable {{${variable}}}`);
+  }
+  return { name, description: description.join(' ') || undefined, system, user };
+}
+
+// Templates are read once at startup from PROMPTS_DIR (default: ./prompts), one <name>.txt file each
+export class PromptLibrary {
+  private templates = new Map<string, PromptTemplate>();
+
+  constructor(dir: string) {
+    let files: string[] = [];
+    try {
+      files = fs.readdirSync(dir).filter(file => file.endsWith('.txt')).sort();
+    } catch (error) {
+      console.error(`❌ Cannot read prompt templates from ${dir}:`, error);
+    }
+
+    for (const file of files) {
+      const name = path.basename(file, '.txt');
+      try {
+        this.templates.set(name, parseTemplate(name, fs.readFileSync(path.join(dir, file), 'utf8')));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Invalid prompt template ${file}: ${errorMessage}`);
+      }
+    }
+
+    if (!this.templates.has(DEFAULT_PROMPT)) {
+      console.error(`❌ No "${DEFAULT_PROMPT}" prompt template in ${dir}, LLM players need a template to be chosen`);
+    }
+    console.log(`✅ Loaded prompt templates: ${this.list().map(t => t.name).join(', ') || 'none'}`);
+  }
+
+  list(): PromptTemplate[] {
+    return Array.from(this.templates.values());
+  }
+
+  has(name: string): boolean {
+    return this.templates.has(name);
+  }
+
+  render(name: string | undefined, request: AIMoveRequest): RenderedPrompt {
+    const template = this.templates.get(name || DEFAULT_PROMPT);
+    if (!template) throw new Error(`Unknown prompt template: ${name || DEFAULT_PROMPT}`);
+    const variables = promptVariables(request);
+    return {
+      template: template.name,
+      system: renderTemplate(template.system, variables),
+      user: renderTemplate(template.user, variables),
+    };
+  }
+}
@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StoredPlayer } from './gameStore';
+import { DEFAULT_PROMPT } from './promptTemplates';
+
+export type DecisiveResult = '1-0' | '0-1' | '1/2-1/2';
+
+export interface RecordedResult {
+  // Game id when known; a game is only ever rated once
+  gameId?: string;
+  white: StoredPlayer;
+  black: StoredPlayer;
+  result: DecisiveResult;
+  termination?: string;
+  // Where the result came from: match, client, pgn-import, ...
+  source: string;
+  playedAt: string;
+  recordedAt: string;
+}
+
+export interface Glicko2Rating {
+  rating: number;
+  rd: number;
+  volatility: number;
+}
+
+export interface PlayerRating {
+  // provider/model, plus #template for a non-default prompt and +tools in tool mode
+  key: string;
+  provider: string;
+  model: string;
+  prompt?: string;
+  tools?: boolean;
+  elo: number;
+  glicko: Glicko2Rating;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  lastPlayedAt?: string;
+}
+
+const INITIAL_ELO = 1500;
+const ELO_K = 32;
+
+const GLICKO_INITIAL: Glicko2Rating = { rating: 1500, rd: 350, volatility: 0.06 };
+// System constant: how much volatility may change per game
+const GLICKO_TAU = 0.5;
+const GLICKO_SCALE = 173.7178;
+const GLICKO_EPSILON = 0.000001;
+
+// The same model asked with another prompt template, or in tool mode, is rated separately so they can be compared
+export function ratingKey(player: StoredPlayer): string {
+  const prompt = player.prompt && player.prompt !== DEFAULT_PROMPT ? `#${player.prompt}` : '';
+  return `${player.provider}/${player.model || 'default'}${prompt}${player.tools ? '+tools' : ''}`;
+}
+
+// White's score: 1, 0.5 or 0
+function whiteScore(result: DecisiveResult): number {
+  if (result === '1-0') return 1;
+  if (result === '0-1') return 0;
+  return 0.5;
+}
+
+export function updateElo(rating: number, opponent: number, score: number): number {
+  const expected = 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+  return rating + ELO_K * (score - expected);
+}
+
+// Glicko-2 (Glickman, 2012) with every game treated as its own rating period
+export function updateGlicko2(player: Glicko2Rating, opponent: Glicko2Rating, score: number): Glicko2Rating {
+  const mu = (player.rating - 1500) / GLICKO_SCALE;
+  const phi = player.rd / GLICKO_SCALE;
+  const muOpponent = (opponent.rating - 1500) / GLICKO_SCALE;
+  const phiOpponent = opponent.rd / GLICKO_SCALE;
+
+  const g = 1 / Math.sqrt(1 + (3 * phiOpponent * phiOpponent) / (Math.PI * Math.PI));
+  const expected = 1 / (1 + Math.exp(-g * (mu - muOpponent)));
+  const v = 1 / (g * g * expected * (1 - expected));
+  const delta = v * g * (score - expected);
+
+  // New volatility by the Illinois algorithm
+  const a = Math.log(player.volatility * player.volatility);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * d * d) - (x - a) / (GLICKO_TAU * GLICKO_TAU);
+  };
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + v) {
+    upper = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * GLICKO_TAU) < 0) k++;
+    upper = a - k * GLICKO_TAU;
+  }
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > GLICKO_EPSILON) {
+    const next = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fNext = f(next);
+    if (fNext * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = next;
+    fUpper = fNext;
+  }
+  const volatility = Math.exp(lower / 2);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNew = mu + phiNew * phiNew * g * (score - expected);
+
+  return {
+    rating: muNew * GLICKO_SCALE + 1500,
+    rd: phiNew * GLICKO_SCALE,
+    volatility,
+  };
+}
+
+function newRating(player: StoredPlayer): PlayerRating {
+  return {
+    key: ratingKey(player),
+    provider: player.provider,
+    model: player.model || 'default',
+    ...(player.prompt && player.prompt !== DEFAULT_PROMPT ? { prompt: player.prompt } : {}),
+    ...(player.tools ? { tools: true } : {}),
+    elo: INITIAL_ELO,
+    glicko: { ...GLICKO_INITIAL },
+    games: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+  };
+}
+
+// Replay a result history in order; the same history always yields the same ratings
+export function computeRatings(results: RecordedResult[]): Map<string, PlayerRating> {
+  const ratings = new Map<string, PlayerRating>();
+  const get = (player: StoredPlayer) => {
+    const key = ratingKey(player);
+    if (!ratings.has(key)) ratings.set(key, newRating(player));
+    return ratings.get(key)!;
+  };
+
+  for (const result of results) {
+    const white = get(result.white);
+    const black = get(result.black);
+    // A model playing itself teaches nothing about its strength
+    if (white === black) continue;
+
+    const score = whiteScore(result.result);
+    const whiteElo = updateElo(white.elo, black.elo, score);
+    const blackElo = updateElo(black.elo, white.elo, 1 - score);
+    const whiteGlicko = updateGlicko2(white.glicko, black.glicko, score);
+    const blackGlicko = updateGlicko2(black.glicko, white.glicko, 1 - score);
+
+    for (const [rating, elo, glicko, points] of [
+      [white, whiteElo, whiteGlicko, score],
+      [black, blackElo, blackGlicko, 1 - score],
+    ] as const) {
+      rating.elo = elo;
+      rating.glicko = glicko;
+      rating.games += 1;
+      if (points === 1) rating.wins += 1;
+      else if (points === 0) rating.losses += 1;
+      else rating.draws += 1;
+      rating.lastPlayedAt = result.playedAt;
+    }
+  }
+
+  return ratings;
+}
+
+export type LeaderboardSort = 'elo' | 'glicko' | 'games';
+
+// Result history in results.jsonl (source of truth), current ratings snapshot in ratings.json
+export class RatingService {
+  private dir: string;
+  private results: RecordedResult[] = [];
+  private gameIds = new Set<string>();
+  private ratings = new Map<string, PlayerRating>();
+  private loaded: Promise<void> | null = null;
+  // Serializes file writes
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  // Returns false when the game was already rated
+  async record(result: Omit<RecordedResult, 'recordedAt'>): Promise<boolean> {
+    await this.load();
+    if (result.gameId && this.gameIds.has(result.gameId)) return false;
+
+    const recorded: RecordedResult = { ...result, recordedAt: new Date().toISOString() };
+    this.results.push(recorded);
+    if (recorded.gameId) this.gameIds.add(recorded.gameId);
+    this.ratings = computeRatings(this.results);
+
+    await this.enqueue(async () => {
+      await fs.promises.appendFile(this.resultsPath, JSON.stringify(recorded) + '\n');
+      await this.writeSnapshot();
+    });
+    return true;
+  }
+
+  async leaderboard(sort: LeaderboardSort = 'glicko', minGames = 0): Promise<PlayerRating[]> {
+    await this.load();
+    const value = (r: PlayerRating) => (sort === 'elo' ? r.elo : sort === 'games' ? r.games : r.glicko.rating);
+    return Array.from(this.ratings.values())
+      .filter(r => r.games >= minGames)
+      .sort((a, b) => value(b) - value(a));
+  }
+
+  async history(): Promise<RecordedResult[]> {
+    await this.load();
+    return this.results;
+  }
+
+  // Rebuild every rating from the recorded history and rewrite the snapshot
+  async recompute(): Promise<PlayerRating[]> {
+    await this.load();
+    this.ratings = computeRatings(this.results);
+    await this.enqueue(() => this.writeSnapshot());
+    return this.leaderboard();
+  }
+
+  private get resultsPath(): string {
+    return path.join(this.dir, 'results.jsonl');
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const run = this.writes.then(write);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readAll();
+    }
+    return this.loaded;
+  }
+
+  private async readAll(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+
+    let raw = '';
+    try {
+      raw = await fs.promises.readFile(this.resultsPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    raw.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const result: RecordedResult = JSON.parse(line);
+        this.results.push(result);
+        if (result.gameId) this.gameIds.add(result.gameId);
+      } catch {
+        console.error(`❌ Skipping unreadable result on line ${index + 1} of ${this.resultsPath}`);
+      }
+    });
+
+    this.ratings = computeRatings(this.results);
+    console.log(`📈 Loaded ${this.results.length} rated results for ${this.ratings.size} models`);
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    const filepath = path.join(this.dir, 'ratings.json');
+    const tmpPath = `${filepath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(Array.from(this.ratings.values()), null, 2));
+    await fs.promises.rename(tmpPath, filepath);
+  }
+}
@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TokenUsage } from './usage';
+
+export type LimitCode = 'BUDGET_EXCEEDED' | 'RATE_LIMITED';
+
+// Thrown by AIService.getMove instead of calling a provider that is over one of its limits
+export class LimitExceededError extends Error {
+  code: LimitCode;
+  // When a rate-limited request may be retried
+  retryAfterMs?: number;
+
+  constructor(code: LimitCode, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LimitExceededError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Per-model entries are keyed provider/model; "default" applies to every model without its own entry
+export interface SpendingLimitsConfig {
+  totalUsd?: number;
+  // Resets at midnight UTC
+  dailyUsd?: number;
+  modelUsd?: Record<string, number>;
+  requestsPerMinute?: Record<string, number>;
+}
+
+interface SpendingLedger {
+  totalUsd: number;
+  // UTC date (YYYY-MM-DD) to spend on that day
+  days: Record<string, number>;
+  models: Record<string, number>;
+}
+
+export interface SpendingStatus {
+  limits: SpendingLimitsConfig;
+  spent: { totalUsd: number; todayUsd: number; models: Record<string, number> };
+}
+
+const RATE_WINDOW_MS = 60000;
+
+const today = () => new Date().toISOString().slice(0, 10);
+const usd = (amount: number) => `$${amount.toFixed(2)}`;
+
+const perModel = (values: Record<string, number> | undefined, key: string) => values?.[key] ?? values?.default;
+
+// Spend is estimated from list prices, so only models with known pricing count against a budget;
+// AIService refuses the others while a budget applies to them.
+// Limits are checked before each provider call: concurrent games can overshoot by one answer each.
+export class SpendingLimits {
+  private config: SpendingLimitsConfig;
+  private dir?: string;
+  private ledger: SpendingLedger = { totalUsd: 0, days: {}, models: {} };
+  // Request timestamps within the last minute, per model
+  private requests = new Map<string, number[]>();
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  // Without a directory spending is only tracked until the server restarts
+  constructor(config: SpendingLimitsConfig, dir?: string) {
+    this.config = config;
+    this.dir = dir;
+  }
+
+  // Whether any budget applies to a model, as opposed to only rate limits or nothing
+  hasBudget(key: string): boolean {
+    const { totalUsd, dailyUsd, modelUsd } = this.config;
+    return totalUsd !== undefined || dailyUsd !== undefined || perModel(modelUsd, key) !== undefined;
+  }
+
+  // Reserve a request for a model, or throw LimitExceededError
+  async acquire(key: string): Promise<void> {
+    await this.load();
+
+    const { totalUsd, dailyUsd, modelUsd } = this.config;
+    if (totalUsd !== undefined && this.ledger.totalUsd >= totalUsd) {
+      throw new LimitExceededError('BUDGET_EXCEEDED', `Total budget of ${usd(totalUsd)} reached (${usd(this.ledger.totalUsd)} spent)`);
+    }
+    const spentToday = this.ledger.days[today()] ?? 0;
+    if (dailyUsd !== undefined && spentToday >= dailyUsd) {
+      throw new LimitExceededError('BUDGET_EXCEEDED', `Daily budget of ${usd(dailyUsd)} reached (${usd(spentToday)} spent today)`);
+    }
+    const modelBudget = perModel(modelUsd, key);
+    const spentOnModel = this.ledger.models[key] ?? 0;
+    if (modelBudget !== undefined && spentOnModel >= modelBudget) {
+      throw new LimitExceededError('BUDGET_EXCEEDED', `Budget of ${usd(modelBudget)} for ${key} reached (${usd(spentOnModel)} spent)`);
+    }
+
+    const rpm = perModel(this.config.requestsPerMinute, key);
+    if (rpm === undefined) return;
+    const now = Date.now();
+    const recent = (this.requests.get(key) || []).filter(t => now - t < RATE_WINDOW_MS);
+    if (recent.length >= rpm) {
+      const retryAfterMs = recent[0] + RATE_WINDOW_MS - now;
+      this.requests.set(key, recent);
+      throw new LimitExceededError('RATE_LIMITED', `${key} is limited to ${rpm} requests per minute`, retryAfterMs);
+    }
+    recent.push(now);
+    this.requests.set(key, recent);
+  }
+
+  // Add the estimated cost of an answer to the ledger
+  async record(key: string, usage: TokenUsage | undefined): Promise<void> {
+    if (!usage?.costUsd) return;
+    await this.load();
+
+    const day = today();
+    this.ledger.totalUsd += usage.costUsd;
+    this.ledger.days[day] = (this.ledger.days[day] ?? 0) + usage.costUsd;
+    this.ledger.models[key] = (this.ledger.models[key] ?? 0) + usage.costUsd;
+
+    if (!this.dir) return;
+    const snapshot = JSON.stringify(this.ledger, null, 2);
+    const write = this.writes.then(() => this.writeLedger(snapshot));
+    this.writes = write.catch(error => {
+      console.error('❌ Failed to save spending ledger:', error);
+    });
+    await this.writes;
+  }
+
+  async status(): Promise<SpendingStatus> {
+    await this.load();
+    return {
+      limits: this.config,
+      spent: {
+        totalUsd: this.ledger.totalUsd,
+        todayUsd: this.ledger.days[today()] ?? 0,
+        models: this.ledger.models,
+      },
+    };
+  }
+
+  private get ledgerPath(): string {
+    return path.join(this.dir!, 'spending.json');
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readLedger();
+    }
+    return this.loaded;
+  }
+
+  private async readLedger(): Promise<void> {
+    if (!this.dir) return;
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    try {
+      const saved: Partial<SpendingLedger> = JSON.parse(await fs.promises.readFile(this.ledgerPath, 'utf8'));
+      this.ledger = { totalUsd: saved.totalUsd ?? 0, days: saved.days ?? {}, models: saved.models ?? {} };
+      console.log(`💰 Loaded spending ledger: ${usd(this.ledger.totalUsd)} spent so far`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`❌ Unreadable spending ledger ${this.ledgerPath}, starting from zero:`, error);
+      }
+    }
+  }
+
+  private async writeLedger(snapshot: string): Promise<void> {
+    const tmpPath = `${this.ledgerPath}.tmp`;
+    await fs.promises.writeFile(tmpPath, snapshot);
+    await fs.promises.rename(tmpPath, this.ledgerPath);
+  }
+}
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+function parseAmounts(value: unknown, field: string): Record<string, number> | undefined {
+  if (value === undefined) return undefined;
+  // A bare number is the default for every model
+  if (isAmount(value)) return { default: value };
+  if (!value || typeof value !== 'object') throw new Error(`${field} must be a number or an object of numbers`);
+
+  const amounts: Record<string, number> = {};
+  for (const [key, amount] of Object.entries(value)) {
+    if (!isAmount(amount)) throw new Error(`${field}.${key} must be a non-negative number`);
+    amounts[key] = amount;
+  }
+  return amounts;
+}
+
+// Parse SPENDING_LIMITS, a JSON SpendingLimitsConfig; an invalid value disables the limits with an error
+export function loadSpendingLimits(raw: string | undefined): SpendingLimitsConfig {
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('expected a JSON object');
+
+    for (const field of ['totalUsd', 'dailyUsd'] as const) {
+      if (parsed[field] !== undefined && !isAmount(parsed[field])) throw new Error(`${field} must be a non-negative number`);
+    }
+    return {
+      totalUsd: parsed.totalUsd,
+      dailyUsd: parsed.dailyUsd,
+      modelUsd: parseAmounts(parsed.modelUsd, 'modelUsd'),
+      requestsPerMinute: parseAmounts(parsed.requestsPerMinute, 'requestsPerMinute'),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`❌ Invalid SPENDING_LIMITS: ${errorMessage}`);
+    return {};
+  }
+}
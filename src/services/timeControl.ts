@@ -0,0 +1,71 @@
+import { Chess } from 'chess.js';
+
+// A running clock with an increment added after every move, or a fixed budget for each move
+export type TimeControl =
+  | { type: 'clock'; baseSeconds: number; incrementSeconds: number }
+  | { type: 'per-move'; secondsPerMove: number };
+
+// Remaining time per side in milliseconds
+export type Clocks = { w: number; b: number };
+
+const MAX_SECONDS = 24 * 60 * 60;
+
+const isSeconds = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= MAX_SECONDS;
+
+// Validate a time control from a request body; undefined and null mean no time limit
+export function resolveTimeControl(raw: unknown): TimeControl | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const value = raw as Record<string, unknown>;
+
+  if (value.type === 'clock') {
+    if (!isSeconds(value.baseSeconds, 1)) throw new Error(`baseSeconds must be between 1 and ${MAX_SECONDS}`);
+    const increment = value.incrementSeconds ?? 0;
+    if (!isSeconds(increment, 0)) throw new Error(`incrementSeconds must be between 0 and ${MAX_SECONDS}`);
+    return { type: 'clock', baseSeconds: value.baseSeconds, incrementSeconds: increment };
+  }
+  if (value.type === 'per-move') {
+    if (!isSeconds(value.secondsPerMove, 1)) throw new Error(`secondsPerMove must be between 1 and ${MAX_SECONDS}`);
+    return { type: 'per-move', secondsPerMove: value.secondsPerMove };
+  }
+  throw new Error('timeControl.type must be "clock" or "per-move"');
+}
+
+export function initialClocks(timeControl: TimeControl): Clocks {
+  const ms = (timeControl.type === 'clock' ? timeControl.baseSeconds : timeControl.secondsPerMove) * 1000;
+  return { w: ms, b: ms };
+}
+
+// Clocks after a side spent elapsedMs; the increment is only earned by completing a move
+export function spendClock(timeControl: TimeControl, clocks: Clocks, color: 'w' | 'b', elapsedMs: number, moved: boolean): Clocks {
+  if (timeControl.type === 'per-move') return clocks;
+  const remaining = clocks[color] - elapsedMs + (moved ? timeControl.incrementSeconds * 1000 : 0);
+  return { ...clocks, [color]: Math.max(remaining, 0) };
+}
+
+// PGN TimeControl tag: "300+2" for a clock, one move per period for a fixed budget
+export function timeControlTag(timeControl: TimeControl): string {
+  return timeControl.type === 'clock'
+    ? `${timeControl.baseSeconds}+${timeControl.incrementSeconds}`
+    : `1/${timeControl.secondsPerMove}`;
+}
+
+// h:mm:ss as used by the PGN %clk command
+export function formatClock(ms: number): string {
+  const total = Math.max(Math.ceil(ms / 1000), 0);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${Math.floor(total / 3600)}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+}
+
+// Whether a side could still checkmate; running out of time against a lone king or minor piece is a draw
+export function hasMatingMaterial(game: Chess, color: 'w' | 'b'): boolean {
+  let minors = 0;
+  for (const row of game.board()) {
+    for (const square of row) {
+      if (!square || square.color !== color) continue;
+      if (square.type === 'p' || square.type === 'r' || square.type === 'q') return true;
+      if (square.type === 'n' || square.type === 'b') minors += 1;
+    }
+  }
+  return minors >= 2;
+}
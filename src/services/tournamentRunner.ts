@@ -0,0 +1,399 @@
+import { EventEmitter } from 'events';
+import { AIService } from './aiService';
+import { MatchOptions, MatchPlayer, MatchRunner, MatchState } from './matchRunner';
+import { resolveTimeControl } from './timeControl';
+import { resolveEncoding } from './boardEncodings';
+import { resolveConversation } from './conversations';
+import { resolveToolOptions } from './chessTools';
+import { Pairing, SwissEntry, gauntletPairings, roundRobinPairings, swissPairings } from './pairings';
+
+export type TournamentFormat = 'round-robin' | 'swiss' | 'gauntlet';
+
+export interface TournamentOptions {
+  format?: TournamentFormat;
+  // Round-robin: play every pairing twice with colors swapped
+  double?: boolean;
+  // Swiss: number of rounds, defaults to ceil(log2(players)) + 1
+  rounds?: number;
+  // Gauntlet: games the challenger (first player) plays against each opponent
+  gamesPerOpponent?: number;
+  // Games played at the same time
+  concurrency?: number;
+  // Applied to every game
+  match?: MatchOptions;
+}
+
+export type TournamentStatus = 'running' | 'finished' | 'aborted';
+
+export interface TournamentGame {
+  round: number;
+  // Indexes into TournamentState.players
+  white: number;
+  black: number;
+  status: 'pending' | 'running' | 'finished' | 'aborted';
+  matchId?: string;
+  result?: MatchState['result'];
+  termination?: string;
+  forfeitedBy?: 'w' | 'b';
+}
+
+export interface Standing {
+  player: number;
+  games: number;
+  points: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  forfeits: number;
+  byes: number;
+  sonnebornBerger: number;
+}
+
+export interface TournamentBye {
+  round: number;
+  player: number;
+}
+
+export interface TournamentState {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  players: MatchPlayer[];
+  options: Required<Omit<TournamentOptions, 'match'>> & { match: MatchOptions };
+  status: TournamentStatus;
+  // Swiss rounds are paired one at a time, so games only lists rounds paired so far
+  games: TournamentGame[];
+  byes: TournamentBye[];
+  currentRound: number;
+  standings: Standing[];
+  // Why the tournament was cut short when it was not aborted by hand
+  stoppedReason?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export type TournamentEventType = 'snapshot' | 'round_started' | 'game_started' | 'game_finished' | 'tournament_over';
+
+export interface TournamentEvent {
+  type: TournamentEventType;
+  data: TournamentState;
+}
+
+const FORMATS: TournamentFormat[] = ['round-robin', 'swiss', 'gauntlet'];
+const DEFAULT_CONCURRENCY = 2;
+const MAX_CONCURRENCY = 8;
+const DEFAULT_GAMES_PER_OPPONENT = 2;
+const MAX_GAMES_PER_OPPONENT = 20;
+
+// Points scored by the given player in a finished game
+function gameScore(game: TournamentGame, player: number): number | null {
+  if (game.status !== 'finished' || !game.result || game.result === '*') return null;
+  if (game.result === '1/2-1/2') return 0.5;
+  const whiteWon = game.result === '1-0';
+  return (game.white === player) === whiteWon ? 1 : 0;
+}
+
+// Points, W/D/L and forfeits from finished games (a bye scores a point), tie-broken by Sonneborn-Berger then wins
+export function computeStandings(playerCount: number, games: TournamentGame[], byes: TournamentBye[] = []): Standing[] {
+  const standings: Standing[] = Array.from({ length: playerCount }, (_, player) => ({
+    player, games: 0, points: 0, wins: 0, draws: 0, losses: 0, forfeits: 0, byes: 0, sonnebornBerger: 0,
+  }));
+
+  for (const bye of byes) {
+    standings[bye.player].byes += 1;
+    standings[bye.player].points += 1;
+  }
+
+  for (const game of games) {
+    for (const player of [game.white, game.black]) {
+      const score = gameScore(game, player);
+      if (score === null) continue;
+      const standing = standings[player];
+      standing.games += 1;
+      standing.points += score;
+      if (score === 1) standing.wins += 1;
+      else if (score === 0.5) standing.draws += 1;
+      else standing.losses += 1;
+      const color = game.white === player ? 'w' : 'b';
+      if (game.forfeitedBy === color) standing.forfeits += 1;
+    }
+  }
+
+  // Sonneborn-Berger: the final score of every opponent beaten, plus half of every opponent drawn
+  for (const game of games) {
+    for (const player of [game.white, game.black]) {
+      const score = gameScore(game, player);
+      if (!score) continue;
+      const opponent = player === game.white ? game.black : game.white;
+      standings[player].sonnebornBerger += score * standings[opponent].points;
+    }
+  }
+
+  return standings.sort((a, b) =>
+    b.points - a.points || b.sonnebornBerger - a.sonnebornBerger || b.wins - a.wins || a.player - b.player
+  );
+}
+
+const FORMAT_NAMES: Record<TournamentFormat, string> = {
+  'round-robin': 'Round-robin',
+  swiss: 'Swiss',
+  gauntlet: 'Gauntlet',
+};
+
+// Fill in defaults and reject settings the format cannot schedule
+function resolveOptions(playerCount: number, options: TournamentOptions): TournamentState['options'] {
+  const format = options.format ?? 'round-robin';
+  if (!FORMATS.includes(format)) {
+    throw new Error(`Unknown tournament format ${format}, expected one of ${FORMATS.join(', ')}`);
+  }
+
+  // Without repeats everyone can meet everyone else at most once
+  const maxRounds = playerCount % 2 === 0 ? playerCount - 1 : playerCount;
+  const rounds = Math.floor(options.rounds ?? Math.min(Math.ceil(Math.log2(playerCount)) + 1, maxRounds));
+  if (format === 'swiss' && !(rounds >= 1 && rounds <= maxRounds)) {
+    throw new Error(`A Swiss tournament with ${playerCount} players can have 1 to ${maxRounds} rounds`);
+  }
+
+  const gamesPerOpponent = Math.floor(options.gamesPerOpponent ?? DEFAULT_GAMES_PER_OPPONENT);
+  if (format === 'gauntlet' && !(gamesPerOpponent >= 1 && gamesPerOpponent <= MAX_GAMES_PER_OPPONENT)) {
+    throw new Error(`Games per opponent must be between 1 and ${MAX_GAMES_PER_OPPONENT}`);
+  }
+
+  return {
+    format,
+    double: options.double ?? true,
+    rounds,
+    gamesPerOpponent,
+    concurrency: Math.min(Math.max(Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY), 1), MAX_CONCURRENCY),
+    // Rejected here so a bad time control fails the request instead of every game
+    match: { ...options.match, timeControl: resolveTimeControl(options.match?.timeControl) },
+  };
+}
+
+class Tournament {
+  state: TournamentState;
+  private matchRunner: MatchRunner;
+  private aborted = false;
+  private events = new EventEmitter();
+
+  // Options must already be validated, see resolveOptions
+  constructor(id: string, name: string, players: MatchPlayer[], options: TournamentState['options'], matchRunner: MatchRunner) {
+    this.matchRunner = matchRunner;
+
+    let pairings: Pairing[] = [];
+    if (options.format === 'round-robin') pairings = roundRobinPairings(players.length, options.double);
+    if (options.format === 'gauntlet') pairings = gauntletPairings(players.length, options.gamesPerOpponent);
+
+    this.state = {
+      id,
+      name,
+      format: options.format,
+      players,
+      options,
+      status: 'running',
+      games: pairings.map(p => ({ ...p, status: 'pending' })),
+      byes: [],
+      currentRound: 0,
+      standings: computeStandings(players.length, []),
+      startedAt: new Date().toISOString(),
+    };
+    this.events.setMaxListeners(0);
+  }
+
+  // Total rounds of the schedule
+  get totalRounds(): number {
+    if (this.state.format === 'swiss') return this.state.options.rounds;
+    return Math.max(0, ...this.state.games.map(g => g.round));
+  }
+
+  subscribe(listener: (event: TournamentEvent) => void): () => void {
+    this.events.on('event', listener);
+    return () => {
+      this.events.off('event', listener);
+    };
+  }
+
+  private publish(type: TournamentEventType): void {
+    this.events.emit('event', { type, data: this.state });
+  }
+
+  abort(): void {
+    if (this.state.status !== 'running') return;
+    this.aborted = true;
+    for (const game of this.state.games) {
+      if (game.status === 'running' && game.matchId) {
+        this.matchRunner.abort(game.matchId);
+      } else if (game.status === 'pending') {
+        game.status = 'aborted';
+      }
+    }
+  }
+
+  async run(): Promise<void> {
+    if (this.state.format === 'swiss') {
+      await this.runSwiss();
+    } else {
+      // Fixed schedules: later rounds may start while earlier games are still being played
+      this.state.currentRound = this.totalRounds;
+      await this.runPool();
+    }
+
+    this.state.status = this.aborted ? 'aborted' : 'finished';
+    this.state.finishedAt = new Date().toISOString();
+    const leader = this.state.standings[0];
+    console.log(`🏆 Tournament ${this.state.id} ${this.state.status}, leader: ${this.playerName(leader.player)} (${leader.points} pts)`);
+    this.publish('tournament_over');
+  }
+
+  // Swiss rounds depend on the previous results, so each round is paired once the last one is over
+  private async runSwiss(): Promise<void> {
+    for (let round = 1; round <= this.state.options.rounds && !this.aborted; round++) {
+      const paired = swissPairings(this.swissEntries(), round);
+      if (!paired) {
+        console.log(`⚠️ Tournament ${this.state.id}: no Swiss pairing without repeats for round ${round}, stopping early`);
+        return;
+      }
+
+      this.state.currentRound = round;
+      this.state.games.push(...paired.pairings.map(p => ({ ...p, status: 'pending' as const })));
+      if (paired.bye !== undefined) {
+        this.state.byes.push({ round, player: paired.bye });
+        this.state.standings = computeStandings(this.state.players.length, this.state.games, this.state.byes);
+      }
+      this.publish('round_started');
+      await this.runPool();
+    }
+  }
+
+  private swissEntries(): SwissEntry[] {
+    const points = new Map(this.state.standings.map(s => [s.player, s.points]));
+    return this.state.players.map((_, player) => {
+      const games = this.state.games
+        .filter(g => g.white === player || g.black === player)
+        .sort((a, b) => a.round - b.round);
+      return {
+        player,
+        score: points.get(player) ?? 0,
+        colors: games.map(g => (g.white === player ? 'w' : 'b') as 'w' | 'b'),
+        opponents: games.map(g => (g.white === player ? g.black : g.white)),
+        hadBye: this.state.byes.some(b => b.player === player),
+      };
+    });
+  }
+
+  // Worker pool: each worker takes the next pending game until none are left
+  private async runPool(): Promise<void> {
+    const worker = async () => {
+      for (;;) {
+        if (this.aborted) return;
+        const game = this.state.games.find(g => g.status === 'pending');
+        if (!game) return;
+        await this.playGame(game);
+      }
+    };
+    await Promise.all(Array.from({ length: this.state.options.concurrency }, worker));
+  }
+
+  private async playGame(game: TournamentGame): Promise<void> {
+    game.status = 'running';
+    try {
+      const match = this.matchRunner.start(
+        this.state.players[game.white],
+        this.state.players[game.black],
+        this.state.options.match,
+        { tournamentId: this.state.id },
+      );
+      game.matchId = match.id;
+      this.publish('game_started');
+
+      const final = await this.matchRunner.waitForFinish(match.id);
+      game.status = final.status === 'finished' ? 'finished' : 'aborted';
+      game.result = final.result;
+      game.termination = final.termination;
+      game.forfeitedBy = final.forfeitedBy;
+      // The remaining games would only hit the same limit
+      if (final.budgetExceeded && !this.aborted) {
+        console.log(`💸 Tournament ${this.state.id}: stopping, ${final.lastError}`);
+        this.state.stoppedReason = final.termination;
+        this.abort();
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Tournament ${this.state.id}: round ${game.round} game failed:`, errorMessage);
+      game.status = 'aborted';
+      game.termination = `Server error: ${errorMessage}`;
+    }
+
+    this.state.standings = computeStandings(this.state.players.length, this.state.games, this.state.byes);
+    this.publish('game_finished');
+  }
+
+  private playerName(index: number): string {
+    const player = this.state.players[index];
+    return player.model || player.provider;
+  }
+}
+
+export class TournamentRunner {
+  private tournaments = new Map<string, Tournament>();
+  private matchRunner: MatchRunner;
+  private aiService: AIService;
+
+  constructor(matchRunner: MatchRunner, aiService: AIService) {
+    this.matchRunner = matchRunner;
+    this.aiService = aiService;
+  }
+
+  start(players: MatchPlayer[], options: TournamentOptions = {}, name?: string): TournamentState {
+    if (players.length < 2) {
+      throw new Error('A tournament needs at least 2 players');
+    }
+    const resolved = resolveOptions(players.length, options);
+    const available = this.aiService.getAvailableProviders();
+    for (const player of players) {
+      if (!available.includes(player.provider)) {
+        throw new Error(`Provider ${player.provider} not available`);
+      }
+      if (player.prompt && !this.aiService.hasPromptTemplate(player.prompt)) {
+        throw new Error(`Unknown prompt template: ${player.prompt}`);
+      }
+      player.encoding = resolveEncoding(player.encoding);
+      player.conversation = resolveConversation(player.conversation);
+      player.tools = resolveToolOptions(player.tools);
+      if (player.tools && !this.aiService.supportsTools(player.provider)) {
+        throw new Error(`Provider ${player.provider} does not support tool mode`);
+      }
+      this.aiService.assertPriced(player.provider, player.model);
+    }
+
+    const id = `tournament_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const tournament = new Tournament(id, name || `${FORMAT_NAMES[resolved.format]} ${new Date().toISOString().slice(0, 10)}`, players, resolved, this.matchRunner);
+    this.tournaments.set(id, tournament);
+
+    console.log(`🏟️ Tournament ${id}: ${resolved.format}, ${players.length} players, ${tournament.totalRounds} rounds`);
+    tournament.run().catch(error => {
+      console.error(`❌ Tournament ${id} crashed:`, error);
+    });
+    return tournament.state;
+  }
+
+  get(id: string): TournamentState | undefined {
+    return this.tournaments.get(id)?.state;
+  }
+
+  list(): TournamentState[] {
+    return Array.from(this.tournaments.values()).map(t => t.state);
+  }
+
+  // Listen to a tournament's live events; returns an unsubscribe function, or undefined for unknown ids
+  subscribe(id: string, listener: (event: TournamentEvent) => void): (() => void) | undefined {
+    return this.tournaments.get(id)?.subscribe(listener);
+  }
+
+  abort(id: string): TournamentState | undefined {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) return undefined;
+    tournament.abort();
+    return tournament.state;
+  }
+}
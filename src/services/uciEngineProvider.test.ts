@@ -0,0 +1,180 @@
+import { after, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIMoveRequest } from './aiService';
+import { UciEngineConfig, UciEngineProvider, loadUciEngineConfigs } from './uciEngineProvider';
+
+// Stand-in engine: logs every command it receives and misbehaves on demand
+//   normal: answers go with an info line and bestmove e2e4
+//   silent-go: never answers go or stop
+//   wait-stop: answers go only once stopped
+//   crash-uci / crash-go: exits instead of answering
+//   no-move: answers go with bestmove (none)
+const STUB_ENGINE = `
+const fs = require('fs');
+const [mode, logFile] = process.argv.slice(2);
+const out = line => process.stdout.write(line + '\\n');
+require('readline').createInterface({ input: process.stdin }).on('line', line => {
+  fs.appendFileSync(logFile, line + '\\n');
+  if (line === 'uci') {
+    if (mode === 'crash-uci') process.exit(1);
+    out('id name Stub');
+    out('option name Skill Level type spin default 20 min 0 max 20');
+    out('option name UCI_LimitStrength type check default false');
+    out('option name UCI_Elo type spin default 1500 min 1320 max 3190');
+    out('uciok');
+  } else if (line === 'isready') {
+    out('readyok');
+  } else if (line.startsWith('go')) {
+    if (mode === 'crash-go') process.exit(1);
+    if (mode === 'normal') {
+      out('info depth 12 score cp 34 nodes 1000 pv e2e4 e7e5 g1f3');
+      out('bestmove e2e4 ponder e7e5');
+    }
+    if (mode === 'no-move') out('bestmove (none)');
+  } else if (line === 'stop') {
+    if (mode === 'wait-stop') out('bestmove d2d4');
+  } else if (line === 'quit') {
+    process.exit(0);
+  }
+});
+`;
+
+// Engine exits and config errors are logged; under the test runner those writes can interleave with its
+// own messages on stdout
+mock.method(console, 'log', () => undefined);
+mock.method(console, 'error', () => undefined);
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uci-test-'));
+const stubPath = path.join(dir, 'stub-engine.js');
+fs.writeFileSync(stubPath, STUB_ENGINE);
+
+const providers: UciEngineProvider[] = [];
+after(async () => {
+  await Promise.all(providers.map(provider => provider.close()));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// A provider running the stub in the given mode, and the commands the stub received
+function stubProvider(mode: string, config: Partial<UciEngineConfig> = {}) {
+  const logFile = path.join(dir, `${mode}-${providers.length}.log`);
+  const provider = new UciEngineProvider({ name: 'stub', path: process.execPath, args: [stubPath, mode, logFile], ...config });
+  providers.push(provider);
+  const commands = () => (fs.existsSync(logFile) ? fs.readFileSync(logFile, 'utf8').trim().split('\n') : []);
+  return { provider, commands };
+}
+
+// The stub logs asynchronously, a command sent just before a rejection may not be there yet
+async function waitForCommand(commands: () => string[], command: string): Promise<void> {
+  for (let i = 0; i < 50 && !commands().includes(command); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const moveRequest = (model: string, signal?: AbortSignal): AIMoveRequest =>
+  ({ fen: START_FEN, moveHistory: [], playerColor: 'w', model, signal });
+
+test('handshake collects options and offers skill and Elo models', async () => {
+  const { provider, commands } = stubProvider('normal', { skillLevels: [3], elos: [1500], options: { Hash: 16 } });
+  await provider.loadModels();
+  assert.deepEqual(provider.models.map(m => m.id), ['stub/full', 'stub/skill-3', 'stub/elo-1500']);
+  assert.deepEqual(commands().slice(0, 3), ['uci', 'setoption name Hash value 16', 'isready']);
+});
+
+test('bestmove and the last info line become the answer', async () => {
+  const { provider, commands } = stubProvider('normal', { skillLevels: [3], go: { depth: 8 } });
+  const response = await provider.getMove(moveRequest('stub/skill-3'));
+  assert.equal(response.move, 'e2e4');
+  assert.equal(response.confidence, 34);
+  assert.equal(response.reasoning, 'stub depth 12, score 34 cp. PV: e2e4 e7e5 g1f3');
+  const sent = commands();
+  assert.ok(sent.includes('setoption name Skill Level value 3'));
+  assert.ok(sent.includes(`position fen ${START_FEN}`));
+  assert.equal(sent[sent.length - 1], 'go depth 8');
+});
+
+test('the game is replayed from its start position and searched on the match clock', async () => {
+  const { provider, commands } = stubProvider('normal');
+  await provider.getMove({
+    fen: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+    startFen: START_FEN,
+    moveHistory: ['e2e4', 'e7e5'],
+    playerColor: 'w',
+    model: 'stub/full',
+    clock: { remainingMs: 60000, opponentMs: 55000, incrementMs: 2000 },
+  });
+  const sent = commands();
+  assert.ok(sent.includes(`position fen ${START_FEN} moves e2e4 e7e5`));
+  assert.equal(sent[sent.length - 1], 'go wtime 60000 btime 55000 winc 2000 binc 2000');
+});
+
+test('a fixed time per move becomes movetime and a history that does not reach the position is dropped', async () => {
+  const { provider, commands } = stubProvider('normal', { go: { depth: 8 } });
+  const fen = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+  await provider.getMove({
+    fen,
+    startFen: START_FEN,
+    moveHistory: ['d2d4'],
+    playerColor: 'b',
+    model: 'stub/full',
+    clock: { remainingMs: 3000, perMove: true },
+  });
+  const sent = commands();
+  assert.ok(sent.includes(`position fen ${fen}`));
+  assert.equal(sent[sent.length - 1], 'go movetime 2950 depth 8');
+});
+
+test('an invalid FEN never reaches the engine', async () => {
+  const { provider, commands } = stubProvider('normal');
+  await assert.rejects(provider.getMove({ ...moveRequest('stub/full'), fen: `${START_FEN}\nquit` }));
+  assert.ok(!commands().some(command => command.startsWith('position') || command === 'quit'));
+});
+
+test('an engine without a move is an error', async () => {
+  const { provider } = stubProvider('no-move');
+  await assert.rejects(provider.getMove(moveRequest('stub/full')), /stub returned no move/);
+});
+
+test('unknown model ids are rejected', async () => {
+  const { provider } = stubProvider('normal');
+  await assert.rejects(provider.getMove(moveRequest('stub/skill-x')), /Unknown stub model/);
+});
+
+test('an engine that dies during the handshake is cleaned up and restarted on the next request', async () => {
+  const { provider, commands } = stubProvider('crash-uci');
+  await assert.rejects(provider.loadModels(), /engine exited unexpectedly/);
+  await assert.rejects(provider.loadModels(), /engine exited unexpectedly/);
+  assert.deepEqual(commands(), ['uci', 'uci']);
+});
+
+test('an engine that dies during a search fails the move', async () => {
+  const { provider } = stubProvider('crash-go');
+  await assert.rejects(provider.getMove(moveRequest('stub/full')), /engine exited unexpectedly/);
+});
+
+test('a search past movetime plus the grace period is stopped and times out', async () => {
+  const { provider, commands } = stubProvider('silent-go', { go: { movetime: 50 } });
+  await assert.rejects(provider.getMove(moveRequest('stub/full')), /did not respond within 5050ms/);
+  await waitForCommand(commands, 'stop');
+  assert.equal(commands().pop(), 'stop');
+});
+
+test('aborting a search sends stop and discards its bestmove', async () => {
+  const { provider, commands } = stubProvider('wait-stop', { go: { depth: 30 } });
+  const controller = new AbortController();
+  const move = provider.getMove(moveRequest('stub/full', controller.signal));
+  setTimeout(() => controller.abort(), 200);
+  await assert.rejects(move, /Move request aborted/);
+  assert.equal(commands().pop(), 'stop');
+});
+
+test('UCI_ENGINES entries need a name and a path', () => {
+  assert.deepEqual(loadUciEngineConfigs(undefined), []);
+  assert.deepEqual(loadUciEngineConfigs('not json'), []);
+  assert.deepEqual(
+    loadUciEngineConfigs('[{"name":"sf","path":"/usr/bin/stockfish"},{"name":"broken"}]'),
+    [{ name: 'sf', path: '/usr/bin/stockfish' }]
+  );
+});
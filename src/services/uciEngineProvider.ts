@@ -0,0 +1,316 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import * as readline from 'readline';
+import { Chess } from 'chess.js';
+import { AIProvider, AIMoveRequest, AIMoveResponse } from './aiService';
+
+export interface UciEngineConfig {
+  name: string;
+  path: string;
+  args?: string[];
+  // Search limit for every move; defaults to movetime 1000ms. Under a time control the clock
+  // replaces movetime, depth and nodes still apply
+  go?: { movetime?: number; depth?: number; nodes?: number };
+  // Each entry becomes its own model id: <name>/skill-<n>, <name>/elo-<n>
+  skillLevels?: number[];
+  elos?: number[];
+  // Extra UCI options set once after startup (e.g. Threads, Hash)
+  options?: Record<string, string | number | boolean>;
+}
+
+const HANDSHAKE_TIMEOUT_MS = 10000;
+const SEARCH_GRACE_MS = 5000;
+// Kept off a fixed per-move budget for the round trip back to the match
+const MOVE_OVERHEAD_MS = 50;
+
+// The moves from the start position let the engine detect repetitions. Both are replayed with chess.js
+// first, so nothing but a checked FEN and legal UCI moves reaches the engine; a history that does not
+// lead to the requested position is dropped
+function positionCommand(request: AIMoveRequest): string {
+  const fen = new Chess(request.fen).fen();
+  if (!request.startFen || request.moveHistory.length === 0) return `position fen ${fen}`;
+  try {
+    const startFen = new Chess(request.startFen).fen();
+    const game = new Chess(startFen);
+    const moves = request.moveHistory.map(uci => game.move({ from: uci.substring(0, 2), to: uci.substring(2, 4), promotion: uci[4] }).lan);
+    if (game.fen() === fen) return `position fen ${startFen} moves ${moves.join(' ')}`;
+  } catch {
+    // Illegal history, fall through
+  }
+  return `position fen ${fen}`;
+}
+
+// Strength setting selected by a model id
+type Strength = { type: 'full' } | { type: 'skill'; value: number } | { type: 'elo'; value: number };
+
+export class UciEngineProvider implements AIProvider {
+  name: string;
+  models: { id: string; name: string }[] = [];
+  private config: UciEngineConfig;
+  private process: ChildProcessWithoutNullStreams | null = null;
+  private lineListeners = new Set<(line: string) => void>();
+  private supportedOptions = new Set<string>();
+  // Serializes requests, the engine can only search one position at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: UciEngineConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
+
+  async loadModels(): Promise<void> {
+    await this.ensureStarted();
+
+    const models = [{ id: `${this.name}/full`, name: `${this.name} (full strength)` }];
+    if (this.supportedOptions.has('Skill Level')) {
+      for (const level of this.config.skillLevels || []) {
+        models.push({ id: `${this.name}/skill-${level}`, name: `${this.name} (skill ${level})` });
+      }
+    }
+    if (this.supportedOptions.has('UCI_Elo')) {
+      for (const elo of this.config.elos || []) {
+        models.push({ id: `${this.name}/elo-${elo}`, name: `${this.name} (Elo ${elo})` });
+      }
+    }
+
+    this.models = models;
+    console.log(`  ${this.name}: UCI engine ready with ${this.models.length} models`);
+  }
+
+  async getMove(request: AIMoveRequest): Promise<AIMoveResponse> {
+    const run = this.queue.then(() => this.search(request));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Stop the engine process and wait for it to exit; the next request starts it again
+  async close(): Promise<void> {
+    const proc = this.process;
+    if (!proc) return;
+    this.process = null;
+    const exited = new Promise(resolve => proc.once('exit', resolve));
+    proc.stdin.write('quit\n');
+    proc.kill();
+    await exited;
+  }
+
+  // Search limits for go: the game's clock when it has one, the configured movetime otherwise
+  private goArgs(request: AIMoveRequest, go: NonNullable<UciEngineConfig['go']>): { args: string[]; movetime?: number } {
+    const args: string[] = [];
+    const clock = request.clock;
+    let movetime = go.movetime;
+    if (clock?.perMove) {
+      movetime = Math.max(clock.remainingMs - MOVE_OVERHEAD_MS, 1);
+    } else if (clock) {
+      movetime = undefined;
+      const own = Math.max(Math.floor(clock.remainingMs), 1);
+      const opponent = Math.max(Math.floor(clock.opponentMs ?? clock.remainingMs), 1);
+      const [wtime, btime] = request.playerColor === 'w' ? [own, opponent] : [opponent, own];
+      args.push(`wtime ${wtime}`, `btime ${btime}`);
+      if (clock.incrementMs) args.push(`winc ${clock.incrementMs}`, `binc ${clock.incrementMs}`);
+    }
+    if (movetime) args.push(`movetime ${Math.floor(movetime)}`);
+    if (go.depth) args.push(`depth ${go.depth}`);
+    if (go.nodes) args.push(`nodes ${go.nodes}`);
+    return { args, movetime };
+  }
+
+  private parseStrength(modelId: string | undefined): Strength {
+    const suffix = (modelId || `${this.name}/full`).slice(this.name.length + 1);
+    const skill = suffix.match(/^skill-(\d+)$/);
+    if (skill) return { type: 'skill', value: parseInt(skill[1], 10) };
+    const elo = suffix.match(/^elo-(\d+)$/);
+    if (elo) return { type: 'elo', value: parseInt(elo[1], 10) };
+    if (suffix === 'full') return { type: 'full' };
+    throw new Error(`Unknown ${this.name} model: ${modelId}`);
+  }
+
+  private async search(request: AIMoveRequest): Promise<AIMoveResponse> {
+    // Cancelled while waiting in the queue
+    if (request.signal?.aborted) throw new Error('Move request aborted');
+    const strength = this.parseStrength(request.model);
+    await this.ensureStarted();
+
+    this.applyStrength(strength);
+    this.send('ucinewgame');
+    await this.isReady();
+
+    this.send(positionCommand(request));
+
+    const go = this.config.go || { movetime: 1000 };
+    const { args: goArgs, movetime } = this.goArgs(request, go);
+
+    let lastInfo: { score?: number; mate?: number; depth?: number; pv?: string } = {};
+    const onInfo = (line: string) => {
+      if (!line.startsWith('info ') || !line.includes(' pv ')) return;
+      const depth = line.match(/ depth (\d+)/);
+      const cp = line.match(/ score cp (-?\d+)/);
+      const mate = line.match(/ score mate (-?\d+)/);
+      const pv = line.match(/ pv (.+)$/);
+      lastInfo = {
+        depth: depth ? parseInt(depth[1], 10) : undefined,
+        score: cp ? parseInt(cp[1], 10) : undefined,
+        mate: mate ? parseInt(mate[1], 10) : undefined,
+        pv: pv ? pv[1].trim() : undefined,
+      };
+    };
+
+    // A cancelled search still answers with bestmove, which is then discarded
+    const stop = () => {
+      if (this.process) this.send('stop');
+    };
+    this.lineListeners.add(onInfo);
+    request.signal?.addEventListener('abort', stop, { once: true });
+    try {
+      this.send(`go ${goArgs.join(' ') || 'movetime 1000'}`);
+      // Depth/node limits have no natural deadline, so only a clock or movetime gets a hard timeout
+      const timeoutMs = request.clock
+        ? request.clock.remainingMs + SEARCH_GRACE_MS
+        : movetime && !go.depth && !go.nodes ? movetime + SEARCH_GRACE_MS : 0;
+      const line = await this.waitForLine(l => l.startsWith('bestmove'), timeoutMs, () => {
+        if (this.process) this.send('stop');
+      });
+
+      if (request.signal?.aborted) throw new Error('Move request aborted');
+      const bestMove = line.split(/\s+/)[1];
+      if (!bestMove || bestMove === '(none)' || bestMove === '0000') {
+        throw new Error(`${this.name} returned no move`);
+      }
+
+      const score = lastInfo.mate !== undefined ? `mate in ${lastInfo.mate}` : `${lastInfo.score ?? 0} cp`;
+      return {
+        move: bestMove,
+        confidence: lastInfo.score,
+        reasoning: `${this.name} depth ${lastInfo.depth ?? '?'}, score ${score}${lastInfo.pv ? `. PV: ${lastInfo.pv}` : ''}`,
+      };
+    } finally {
+      this.lineListeners.delete(onInfo);
+      request.signal?.removeEventListener('abort', stop);
+    }
+  }
+
+  private applyStrength(strength: Strength): void {
+    if (this.supportedOptions.has('UCI_LimitStrength')) {
+      this.setOption('UCI_LimitStrength', strength.type === 'elo');
+    }
+    if (strength.type === 'elo') {
+      this.setOption('UCI_Elo', strength.value);
+    }
+    if (this.supportedOptions.has('Skill Level')) {
+      // Full strength resets a lowered skill from a previous request
+      this.setOption('Skill Level', strength.type === 'skill' ? strength.value : 20);
+    }
+  }
+
+  private async ensureStarted(): Promise<void> {
+    if (this.process) return;
+
+    const proc = spawn(this.config.path, this.config.args || []);
+    this.process = proc;
+
+    // Writes after the engine died surface through 'exit', not as an unhandled EPIPE
+    proc.stdin.on('error', () => undefined);
+
+    const rl = readline.createInterface({ input: proc.stdout });
+    rl.on('line', line => {
+      for (const listener of Array.from(this.lineListeners)) listener(line.trim());
+    });
+    proc.on('exit', code => {
+      console.log(`⚠️ ${this.name}: engine exited with code ${code}`);
+      if (this.process === proc) this.process = null;
+    });
+    proc.on('error', err => {
+      console.error(`❌ ${this.name}: failed to run engine:`, err.message);
+      if (this.process === proc) this.process = null;
+    });
+
+    const collectOptions = (line: string) => {
+      const option = line.match(/^option name (.+?) type /);
+      if (option) this.supportedOptions.add(option[1]);
+    };
+    this.lineListeners.add(collectOptions);
+    try {
+      this.send('uci');
+      await this.waitForLine(l => l === 'uciok', HANDSHAKE_TIMEOUT_MS);
+    } catch (error) {
+      proc.kill();
+      this.process = null;
+      throw error;
+    } finally {
+      this.lineListeners.delete(collectOptions);
+    }
+
+    for (const [option, value] of Object.entries(this.config.options || {})) {
+      this.setOption(option, value);
+    }
+    await this.isReady();
+  }
+
+  private async isReady(): Promise<void> {
+    this.send('isready');
+    await this.waitForLine(l => l === 'readyok', HANDSHAKE_TIMEOUT_MS);
+  }
+
+  private setOption(name: string, value: string | number | boolean): void {
+    this.send(`setoption name ${name} value ${value}`);
+  }
+
+  private send(command: string): void {
+    if (!this.process) throw new Error(`${this.name}: engine is not running`);
+    this.process.stdin.write(command + '\n');
+  }
+
+  // Resolve with the first matching output line; timeoutMs 0 waits until the engine exits
+  private waitForLine(match: (line: string) => boolean, timeoutMs: number, onTimeout?: () => void): Promise<string> {
+    const proc = this.process;
+    return new Promise((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+
+      const cleanup = () => {
+        if (timer) clearTimeout(timer);
+        this.lineListeners.delete(listener);
+        proc?.off('exit', onExit);
+      };
+      const listener = (line: string) => {
+        if (!match(line)) return;
+        cleanup();
+        resolve(line);
+      };
+      const onExit = () => {
+        cleanup();
+        reject(new Error(`${this.name}: engine exited unexpectedly`));
+      };
+
+      this.lineListeners.add(listener);
+      proc?.once('exit', onExit);
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          cleanup();
+          onTimeout?.();
+          reject(new Error(`${this.name}: engine did not respond within ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+    });
+  }
+}
+
+// Parse UCI_ENGINES, a JSON array of UciEngineConfig entries
+export function loadUciEngineConfigs(raw: string | undefined): UciEngineConfig[] {
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error('expected a JSON array');
+
+    return parsed.filter((entry: any) => {
+      if (!entry || typeof entry.name !== 'string' || typeof entry.path !== 'string') {
+        console.error('❌ Skipping UCI engine without name/path:', entry);
+        return false;
+      }
+      return true;
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`❌ Invalid UCI_ENGINES: ${errorMessage}`);
+    return [];
+  }
+}
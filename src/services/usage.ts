@@ -0,0 +1,148 @@
+import { StoredPlayer } from './gameStore';
+
+export interface TokenUsage {
+  promptTokens: number;
+  // Includes reasoning tokens, which are billed as output
+  completionTokens: number;
+  reasoningTokens: number;
+  // Estimated from the model's list price; absent when the price is unknown
+  costUsd?: number;
+}
+
+// USD per token, as listed by OpenRouter
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+  // Flat fee per request
+  request?: number;
+}
+
+// Tokens and cost spent by each side of a game, failed attempts included
+export type GameUsage = { w?: TokenUsage; b?: TokenUsage };
+
+export interface UsageTotals extends TokenUsage {
+  games: number;
+}
+
+export interface ModelUsage extends UsageTotals {
+  // provider/model, as in the leaderboard
+  key: string;
+  provider: string;
+  model: string;
+}
+
+export interface MatchupUsage extends UsageTotals {
+  // The two model keys in alphabetical order, regardless of color
+  players: [string, string];
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  models: ModelUsage[];
+  matchups: MatchupUsage[];
+}
+
+// Stored games and game summaries alike
+export interface UsageSource {
+  white: StoredPlayer;
+  black: StoredPlayer;
+  usage?: GameUsage;
+}
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a) return b && { ...b };
+  if (!b) return { ...a };
+  const costUsd = a.costUsd === undefined && b.costUsd === undefined ? undefined : (a.costUsd ?? 0) + (b.costUsd ?? 0);
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+    ...(costUsd !== undefined ? { costUsd } : {}),
+  };
+}
+
+export function estimateCost(usage: TokenUsage, pricing: ModelPricing | undefined): TokenUsage {
+  if (!pricing) return usage;
+  const costUsd = usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion + (pricing.request ?? 0);
+  return { ...usage, costUsd };
+}
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Parse MODEL_PRICING, a JSON object of provider/model to { prompt, completion, request? } in USD per
+// million tokens (request: USD per request), for providers without a price list; bad entries are skipped
+export function loadModelPricing(raw: string | undefined): Map<string, ModelPricing> {
+  const pricing = new Map<string, ModelPricing>();
+  if (!raw) return pricing;
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('expected a JSON object');
+
+    for (const [key, entry] of Object.entries(parsed)) {
+      const { prompt, completion, request } = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      if (!isPrice(prompt) || !isPrice(completion) || (request !== undefined && !isPrice(request))) {
+        console.error(`❌ Skipping MODEL_PRICING entry ${key}: prompt, completion and request must be non-negative numbers`);
+        continue;
+      }
+      pricing.set(key, { prompt: prompt / 1e6, completion: completion / 1e6, ...(request ? { request } : {}) });
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`❌ Invalid MODEL_PRICING: ${errorMessage}`);
+  }
+  return pricing;
+}
+
+const modelKey = (player: StoredPlayer) => `${player.provider}/${player.model || 'default'}`;
+
+const emptyTotals = (): UsageTotals => ({ games: 0, promptTokens: 0, completionTokens: 0, reasoningTokens: 0, costUsd: 0 });
+
+function accumulate(totals: UsageTotals, usage: TokenUsage | undefined): void {
+  if (!usage) return;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.reasoningTokens += usage.reasoningTokens;
+  totals.costUsd = (totals.costUsd ?? 0) + (usage.costUsd ?? 0);
+}
+
+// Totals per model and per pairing, most expensive first; games without any usage are skipped
+export function summarizeUsage(games: UsageSource[]): UsageSummary {
+  const total = emptyTotals();
+  const models = new Map<string, ModelUsage>();
+  const matchups = new Map<string, MatchupUsage>();
+
+  for (const game of games) {
+    if (!game.usage?.w && !game.usage?.b) continue;
+    const white = modelKey(game.white);
+    const black = modelKey(game.black);
+
+    total.games += 1;
+    const players: [string, string] = white <= black ? [white, black] : [black, white];
+    const matchupKey = players.join(' vs ');
+    if (!matchups.has(matchupKey)) matchups.set(matchupKey, { ...emptyTotals(), players });
+    const matchup = matchups.get(matchupKey)!;
+    matchup.games += 1;
+
+    for (const [color, player, key] of [['w', game.white, white], ['b', game.black, black]] as const) {
+      const usage = game.usage[color];
+      accumulate(total, usage);
+      accumulate(matchup, usage);
+      if (!usage) continue;
+      if (!models.has(key)) {
+        models.set(key, { ...emptyTotals(), key, provider: player.provider, model: player.model || 'default' });
+      }
+      const model = models.get(key)!;
+      // Self-play counts as one game for the model
+      if (color === 'w' || white !== black || !game.usage.w) model.games += 1;
+      accumulate(model, usage);
+    }
+  }
+
+  const byCost = (a: UsageTotals, b: UsageTotals) => (b.costUsd ?? 0) - (a.costUsd ?? 0) || b.completionTokens - a.completionTokens;
+  return {
+    total,
+    models: Array.from(models.values()).sort(byCost),
+    matchups: Array.from(matchups.values()).sort(byCost),
+  };
+}